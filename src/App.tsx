@@ -4,31 +4,74 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { PlayerProvider } from "@/hooks/usePlayer";
+import { PreferencesProvider } from "@/hooks/usePreferences";
+import { KeyboardShortcutsProvider } from "@/hooks/useKeyboardShortcuts";
+import { LikesProvider } from "@/hooks/useLikes";
+import { PlaylistsProvider } from "@/hooks/usePlaylists";
+import { RadioProvider } from "@/hooks/useRadio";
+import { PartyProvider } from "@/hooks/useParty";
+import { SleepTimerProvider } from "@/hooks/useSleepTimer";
+import { CommandPaletteProvider } from "@/hooks/useCommandPalette";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import { AuthPage } from "@/components/AuthPage";
+import { MiniPlayer } from "@/components/MiniPlayer";
+import { ResumeSessionDialog } from "@/components/ResumeSessionDialog";
 import { AdminPanel } from "./pages/AdminPanel";
 import { UserDashboard } from "./pages/UserDashboard";
+import { PlaylistPage } from "./pages/PlaylistPage";
+import { PartyPage } from "./pages/PartyPage";
+import { SearchPage } from "./pages/SearchPage";
+import { CategoryPage } from "./pages/CategoryPage";
+import { ArtistPage } from "./pages/ArtistPage";
+import { AlbumPage } from "./pages/AlbumPage";
 
 const queryClient = new QueryClient();
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/auth" element={<AuthPage />} />
-            <Route path="/admin" element={<AdminPanel />} />
-            <Route path="/dashboard" element={<UserDashboard />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <PreferencesProvider>
+        <PlayerProvider>
+          <SleepTimerProvider>
+            <KeyboardShortcutsProvider>
+              <LikesProvider>
+                <RadioProvider>
+                  <PlaylistsProvider>
+                    <PartyProvider>
+                      <TooltipProvider>
+                        <Toaster />
+                        <Sonner />
+                        <ResumeSessionDialog />
+                        <BrowserRouter>
+                          <CommandPaletteProvider>
+                            <MiniPlayer />
+                            <Routes>
+                              <Route path="/" element={<Index />} />
+                              <Route path="/auth" element={<AuthPage />} />
+                              <Route path="/admin" element={<AdminPanel />} />
+                              <Route path="/dashboard" element={<UserDashboard />} />
+                              <Route path="/playlist/:id" element={<PlaylistPage />} />
+                              <Route path="/party/:id" element={<PartyPage />} />
+                              <Route path="/search" element={<SearchPage />} />
+                              <Route path="/category/:id" element={<CategoryPage />} />
+                              <Route path="/artist/:id" element={<ArtistPage />} />
+                              <Route path="/album/:id" element={<AlbumPage />} />
+                              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                              <Route path="*" element={<NotFound />} />
+                            </Routes>
+                          </CommandPaletteProvider>
+                        </BrowserRouter>
+                      </TooltipProvider>
+                    </PartyProvider>
+                  </PlaylistsProvider>
+                </RadioProvider>
+              </LikesProvider>
+            </KeyboardShortcutsProvider>
+          </SleepTimerProvider>
+        </PlayerProvider>
+      </PreferencesProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
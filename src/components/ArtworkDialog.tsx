@@ -0,0 +1,95 @@
+import { useRef, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileAudio, ImageUp, Palette } from "lucide-react";
+import { ARTWORK_TYPES, extractArtwork, uploadArtwork } from "@/lib/artwork";
+
+interface ArtworkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The song or playlist name, shown in the title
+  name: string;
+  artworkUrl: string | null | undefined;
+  // Generated art, shown when there's no artwork
+  fallbackUrl: string;
+  // Song file to read an embedded cover from
+  audioUrl?: string;
+  onSave: (artworkUrl: string | null) => Promise<unknown>;
+}
+
+export const ArtworkDialog = ({ open, onOpenChange, name, artworkUrl, fallbackUrl, audioUrl, onSave }: ArtworkDialogProps) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const save = async (getImage: () => Promise<Blob | null>) => {
+    if (!user) return;
+    setBusy(true);
+    try {
+      const image = await getImage();
+      if (!image) {
+        toast({ title: "No embedded cover", description: "This song's file doesn't contain artwork" });
+        return;
+      }
+      await onSave(await uploadArtwork(user.id, image));
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving artwork:", error);
+      toast({ title: "Error saving artwork", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) save(async () => file);
+  };
+
+  const resetToGenerated = async () => {
+    setBusy(true);
+    await onSave(null);
+    setBusy(false);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Artwork</DialogTitle>
+          <DialogDescription className="truncate">{name}</DialogDescription>
+        </DialogHeader>
+        <img
+          src={artworkUrl || fallbackUrl}
+          alt={`${name} artwork`}
+          className="w-48 h-48 mx-auto rounded-lg object-cover"
+        />
+        <div className="flex flex-col gap-2">
+          <Button onClick={() => fileInputRef.current?.click()} disabled={busy}>
+            <ImageUp className="h-4 w-4 mr-2" />
+            Upload image
+          </Button>
+          {audioUrl && (
+            <Button variant="outline" onClick={() => save(() => extractArtwork(audioUrl))} disabled={busy}>
+              <FileAudio className="h-4 w-4 mr-2" />
+              Use cover from the song file
+            </Button>
+          )}
+          {artworkUrl && (
+            <Button variant="outline" onClick={resetToGenerated} disabled={busy}>
+              <Palette className="h-4 w-4 mr-2" />
+              Use generated artwork
+            </Button>
+          )}
+          <p className="text-xs text-muted-foreground">JPEG, PNG, WebP or GIF, up to 5 MB.</p>
+        </div>
+        <input ref={fileInputRef} type="file" accept={ARTWORK_TYPES.join(",")} className="hidden" onChange={handleFile} />
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useProfileNames } from "@/hooks/useProfileNames";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { UserPlus, X } from "lucide-react";
+import { Playlist } from "@/lib/playlists";
+
+interface CollaboratorsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  playlist: Playlist;
+  onLeft?: () => void;
+}
+
+export const CollaboratorsDialog = ({ open, onOpenChange, playlist, onLeft }: CollaboratorsDialogProps) => {
+  const { user } = useAuth();
+  const { inviteCollaborator, removeCollaborator } = usePlaylists();
+  const [email, setEmail] = useState("");
+  const [inviting, setInviting] = useState(false);
+  const names = useProfileNames([playlist.user_id, ...playlist.collaborators]);
+  const isOwner = playlist.user_id === user?.id;
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!email.trim()) return;
+
+    setInviting(true);
+    if (await inviteCollaborator(playlist.id, email.trim())) {
+      setEmail("");
+    }
+    setInviting(false);
+  };
+
+  const handleLeave = async () => {
+    if (!confirm(`Leave "${playlist.name}"? You won't be able to edit it anymore.`)) return;
+    await removeCollaborator(playlist.id, user.id);
+    onOpenChange(false);
+    onLeft?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>Collaborators can add, remove and reorder songs in this playlist.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between p-2 rounded bg-secondary">
+            <span className="truncate">{isOwner ? "You" : names[playlist.user_id]}</span>
+            <span className="text-xs text-muted-foreground">Owner</span>
+          </div>
+          {playlist.collaborators.map((userId) => (
+            <div key={userId} className="flex items-center justify-between p-2 rounded hover:bg-secondary">
+              <span className="truncate">{userId === user?.id ? "You" : names[userId]}</span>
+              {isOwner && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => removeCollaborator(playlist.id, userId)}
+                  title="Remove collaborator"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          ))}
+          {playlist.collaborators.length === 0 && (
+            <p className="text-sm text-muted-foreground p-2">No collaborators yet.</p>
+          )}
+        </div>
+
+        {isOwner ? (
+          <form onSubmit={handleInvite} className="flex gap-2">
+            <Input
+              type="email"
+              placeholder="Invite by email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Button type="submit" disabled={inviting || !email.trim()}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite
+            </Button>
+          </form>
+        ) : (
+          <DialogFooter>
+            <Button variant="destructive" onClick={handleLeave}>
+              Leave playlist
+            </Button>
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,302 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useSleepTimer } from "@/hooks/useSleepTimer";
+import { useKeyboardShortcuts } from "@/hooks/useKeyboardShortcuts";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import {
+  Folder,
+  Home,
+  Keyboard,
+  LayoutDashboard,
+  ListMusic,
+  LucideIcon,
+  Moon,
+  Music,
+  Pause,
+  Play,
+  Repeat,
+  Search,
+  Shield,
+  Shuffle,
+  SkipBack,
+  SkipForward,
+  Sparkles,
+} from "lucide-react";
+import { repeatLabels, Song } from "@/lib/player";
+import { loadRecentCommands, rememberCommand } from "@/lib/commands";
+import { SLEEP_TIMER_MINUTES } from "@/lib/sleepTimer";
+
+interface PaletteCommand {
+  // Stable across sessions, so recent commands can be found again
+  id: string;
+  group: string;
+  label: string;
+  hint?: string;
+  keywords?: string[];
+  icon: LucideIcon;
+  run: () => void;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const CommandPalette = ({ open, onOpenChange }: CommandPaletteProps) => {
+  const { user } = useAuth();
+  const { isPlaying, shuffle, repeat, togglePlay, nextSong, prevSong, toggleShuffle, cycleRepeat, playNow } = usePlayer();
+  const { playlists } = usePlaylists();
+  const { timer, startSleepTimer, sleepAtEndOfSong, cancelSleepTimer } = useSleepTimer();
+  const { openShortcuts } = useKeyboardShortcuts();
+  const navigate = useNavigate();
+  const [search, setSearch] = useState("");
+  const [songs, setSongs] = useState<Song[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [recent, setRecent] = useState<string[]>(loadRecentCommands);
+
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+
+    const checkAdminStatus = async () => {
+      const { data, error } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      if (error) {
+        console.error("Error checking admin status:", error);
+      }
+      setIsAdmin(!!data);
+    };
+
+    checkAdminStatus();
+  }, [user]);
+
+  // Songs and categories are fetched each time the palette opens, so they're never stale
+  useEffect(() => {
+    if (!open) {
+      setSearch("");
+      return;
+    }
+
+    const load = async () => {
+      const [songsResult, categoriesResult] = await Promise.all([
+        supabase.from("songs").select("*").order("title"),
+        supabase.from("categories").select("id, name").order("name"),
+      ]);
+      if (songsResult.error) {
+        console.error("Error loading songs:", songsResult.error);
+      }
+      setSongs(songsResult.data || []);
+      setCategories(categoriesResult.data || []);
+    };
+
+    load();
+  }, [open]);
+
+  const commands = useMemo<PaletteCommand[]>(() => {
+    const list: PaletteCommand[] = [
+      {
+        id: "player:toggle",
+        group: "Player",
+        label: isPlaying ? "Pause" : "Play",
+        icon: isPlaying ? Pause : Play,
+        keywords: ["play", "pause", "resume"],
+        run: togglePlay,
+      },
+      { id: "player:next", group: "Player", label: "Next song", icon: SkipForward, keywords: ["skip"], run: nextSong },
+      { id: "player:previous", group: "Player", label: "Previous song", icon: SkipBack, keywords: ["back"], run: prevSong },
+      {
+        id: "player:shuffle",
+        group: "Player",
+        label: shuffle ? "Turn shuffle off" : "Turn shuffle on",
+        icon: Shuffle,
+        keywords: ["shuffle", "random"],
+        run: toggleShuffle,
+      },
+      {
+        id: "player:repeat",
+        group: "Player",
+        label: "Change repeat mode",
+        hint: repeatLabels[repeat],
+        icon: Repeat,
+        keywords: ["repeat", "loop"],
+        run: cycleRepeat,
+      },
+      ...SLEEP_TIMER_MINUTES.map((minutes) => ({
+        id: `sleep:${minutes}`,
+        group: "Sleep timer",
+        label: `Sleep in ${minutes} minutes`,
+        icon: Moon,
+        keywords: ["sleep", "timer", "stop"],
+        run: () => startSleepTimer(minutes),
+      })),
+      {
+        id: "sleep:end",
+        group: "Sleep timer",
+        label: "Sleep at end of song",
+        icon: Moon,
+        keywords: ["sleep", "timer", "stop"],
+        run: sleepAtEndOfSong,
+      },
+      { id: "nav:home", group: "Go to", label: "Player", icon: Home, keywords: ["home"], run: () => navigate("/") },
+      { id: "nav:search", group: "Go to", label: "Search", icon: Search, run: () => navigate("/search") },
+      {
+        id: "nav:shortcuts",
+        group: "Go to",
+        label: "Keyboard shortcuts",
+        icon: Keyboard,
+        keywords: ["keys", "hotkeys"],
+        run: openShortcuts,
+      },
+    ];
+
+    if (timer) {
+      list.push({
+        id: "sleep:off",
+        group: "Sleep timer",
+        label: "Turn sleep timer off",
+        icon: Moon,
+        keywords: ["sleep", "timer", "cancel"],
+        run: cancelSleepTimer,
+      });
+    }
+    if (user) {
+      list.push({
+        id: "nav:dashboard",
+        group: "Go to",
+        label: "Dashboard",
+        icon: LayoutDashboard,
+        keywords: ["stats", "profile"],
+        run: () => navigate("/dashboard"),
+      });
+    }
+    if (isAdmin) {
+      list.push({ id: "nav:admin", group: "Go to", label: "Admin panel", icon: Shield, run: () => navigate("/admin") });
+    }
+
+    playlists.forEach((playlist) => {
+      list.push({
+        id: `playlist:${playlist.id}`,
+        group: "Playlists",
+        label: playlist.name,
+        hint: `${playlist.songs.length} songs`,
+        icon: playlist.rules ? Sparkles : ListMusic,
+        run: () => navigate(`/playlist/${playlist.id}`),
+      });
+    });
+    categories.forEach((category) => {
+      list.push({
+        id: `category:${category.id}`,
+        group: "Categories",
+        label: category.name,
+        icon: Folder,
+        run: () => navigate(`/category/${category.id}`),
+      });
+    });
+    songs.forEach((song) => {
+      list.push({
+        id: `song:${song.id}`,
+        group: "Songs",
+        label: song.title,
+        hint: song.artist,
+        keywords: song.artist ? [song.artist] : [],
+        icon: Music,
+        run: () => playNow(song),
+      });
+    });
+
+    return list;
+  }, [
+    isPlaying,
+    shuffle,
+    repeat,
+    togglePlay,
+    nextSong,
+    prevSong,
+    toggleShuffle,
+    cycleRepeat,
+    playNow,
+    timer,
+    startSleepTimer,
+    sleepAtEndOfSong,
+    cancelSleepTimer,
+    openShortcuts,
+    navigate,
+    user,
+    isAdmin,
+    playlists,
+    categories,
+    songs,
+  ]);
+
+  const groups = useMemo(() => {
+    const byGroup = new Map<string, PaletteCommand[]>();
+    commands.forEach((command) => byGroup.set(command.group, [...(byGroup.get(command.group) || []), command]));
+    return [...byGroup.entries()];
+  }, [commands]);
+
+  const recentCommands = useMemo(
+    () => recent.map((id) => commands.find((command) => command.id === id)).filter(Boolean),
+    [recent, commands]
+  );
+
+  const runCommand = (command: PaletteCommand) => {
+    setRecent((prev) => rememberCommand(prev, command.id));
+    onOpenChange(false);
+    command.run();
+  };
+
+  const renderItem = (command: PaletteCommand, value: string) => {
+    const Icon = command.icon;
+    return (
+      <CommandItem
+        key={value}
+        value={value}
+        keywords={[command.label, ...(command.keywords || [])]}
+        onSelect={() => runCommand(command)}
+      >
+        <Icon className="mr-2 h-4 w-4" />
+        <span className="truncate">{command.label}</span>
+        {command.hint && <CommandShortcut className="truncate max-w-[40%]">{command.hint}</CommandShortcut>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange}>
+      <CommandInput placeholder="Type a command, song or playlist..." value={search} onValueChange={setSearch} />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+        {/* Recent commands would duplicate every match, so they only show before typing */}
+        {!search && recentCommands.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentCommands.map((command) => renderItem(command, `recent:${command.id}`))}
+          </CommandGroup>
+        )}
+        {groups.map(([group, items]) => (
+          <CommandGroup key={group} heading={group}>
+            {items.map((command) => renderItem(command, command.id))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -7,6 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { Link } from "react-router-dom";
 import { 
   Play, 
   Pause, 
@@ -15,24 +17,17 @@ import {
   Volume2, 
   Shuffle, 
   Repeat, 
+  Repeat1,
   Plus,
   Music,
   LogOut,
-  Upload,
-  List
+  Upload
 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-
-interface Song {
-  id: string;
-  title: string;
-  artist?: string;
-  url: string;
-  duration?: number;
-  category_id?: string;
-  is_public?: boolean;
-}
+import { formatTime, repeatLabels, Song } from "@/lib/player";
+import { QueuePanel } from "@/components/QueuePanel";
+import { SongMenu } from "@/components/SongMenu";
 
 interface Category {
   id: string;
@@ -48,35 +43,15 @@ interface Playlist {
   songs?: Song[];
 }
 
-interface PlayerState {
-  isPlaying: boolean;
-  currentTime: number;
-  duration: number;
-  currentSongIndex: number;
-  volume: number;
-  shuffle: boolean;
-  repeat: boolean;
-}
-
 export const EnhancedMJPlayer = () => {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const player = usePlayer();
   
   // State
   const [songs, setSongs] = useState<Song[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
-  const [currentPlaylist, setCurrentPlaylist] = useState<Playlist | null>(null);
-  const [playerState, setPlayerState] = useState<PlayerState>({
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    currentSongIndex: 0,
-    volume: 1,
-    shuffle: false,
-    repeat: false,
-  });
   
   // Forms
   const [newSongTitle, setNewSongTitle] = useState("");
@@ -86,7 +61,7 @@ export const EnhancedMJPlayer = () => {
   const [newPlaylistName, setNewPlaylistName] = useState("");
   const [activeTab, setActiveTab] = useState("songs");
 
-  const currentSong = songs[playerState.currentSongIndex];
+  const { currentSong, loadQueue } = player;
 
   // Load data on mount
   useEffect(() => {
@@ -97,38 +72,12 @@ export const EnhancedMJPlayer = () => {
     }
   }, [user]);
 
-  // Audio event listeners
+  // Hand the song list to the player engine if nothing is loaded yet
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => {
-      setPlayerState(prev => ({
-        ...prev,
-        currentTime: audio.currentTime,
-        duration: audio.duration || 0,
-      }));
-    };
-
-    const handleEnded = () => {
-      if (playerState.repeat) {
-        audio.currentTime = 0;
-        audio.play();
-      } else {
-        nextSong();
-      }
-    };
-
-    audio.addEventListener("timeupdate", updateTime);
-    audio.addEventListener("loadedmetadata", updateTime);
-    audio.addEventListener("ended", handleEnded);
-
-    return () => {
-      audio.removeEventListener("timeupdate", updateTime);
-      audio.removeEventListener("loadedmetadata", updateTime);
-      audio.removeEventListener("ended", handleEnded);
-    };
-  }, [playerState.repeat]);
+    if (!currentSong && songs.length > 0) {
+      loadQueue(songs);
+    }
+  }, [songs, currentSong, loadQueue]);
 
   const loadCategories = async () => {
     const { data, error } = await supabase
@@ -165,6 +114,7 @@ export const EnhancedMJPlayer = () => {
       .select(`
         *,
         playlist_songs(
+          position,
           songs(*)
         )
       `)
@@ -176,12 +126,23 @@ export const EnhancedMJPlayer = () => {
     } else {
       const playlistsWithSongs = data?.map(playlist => ({
         ...playlist,
-        songs: playlist.playlist_songs?.map((ps: any) => ps.songs) || []
+        songs: [...(playlist.playlist_songs || [])]
+          .sort((a, b) => a.position - b.position)
+          .map((ps) => ps.songs)
+          .filter(Boolean)
       })) || [];
       setPlaylists(playlistsWithSongs);
     }
   };
 
+  const playPlaylist = (playlist: Playlist) => {
+    if (!playlist.songs?.length) {
+      toast({ title: "Playlist is empty", description: playlist.name });
+      return;
+    }
+    loadQueue(playlist.songs, 0, true, "playlist");
+  };
+
   const addSong = async () => {
     if (!newSongTitle || !newSongUrl) {
       toast({ title: "Error", description: "Please fill in title and URL", variant: "destructive" });
@@ -228,54 +189,6 @@ export const EnhancedMJPlayer = () => {
     }
   };
 
-  const togglePlay = () => {
-    const audio = audioRef.current;
-    if (!audio || !currentSong) return;
-
-    if (playerState.isPlaying) {
-      audio.pause();
-    } else {
-      audio.play();
-    }
-    setPlayerState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
-  };
-
-  const nextSong = () => {
-    if (songs.length === 0) return;
-    
-    let nextIndex;
-    if (playerState.shuffle) {
-      nextIndex = Math.floor(Math.random() * songs.length);
-    } else {
-      nextIndex = (playerState.currentSongIndex + 1) % songs.length;
-    }
-    
-    setPlayerState(prev => ({ ...prev, currentSongIndex: nextIndex }));
-  };
-
-  const prevSong = () => {
-    if (songs.length === 0) return;
-    
-    const prevIndex = playerState.currentSongIndex === 0 
-      ? songs.length - 1 
-      : playerState.currentSongIndex - 1;
-    
-    setPlayerState(prev => ({ ...prev, currentSongIndex: prevIndex }));
-  };
-
-  const seekTo = (value: number[]) => {
-    const audio = audioRef.current;
-    if (audio) {
-      audio.currentTime = value[0];
-    }
-  };
-
-  const formatTime = (time: number) => {
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
-  };
-
   if (!user) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-background to-secondary/20">
@@ -342,15 +255,15 @@ export const EnhancedMJPlayer = () => {
                     {/* Progress Bar */}
                     <div className="space-y-2">
                       <Slider
-                        value={[playerState.currentTime]}
-                        max={playerState.duration || 100}
+                        value={[player.currentTime]}
+                        max={player.duration || 100}
                         step={1}
-                        onValueChange={seekTo}
+                        onValueChange={(value) => player.seekTo(value[0])}
                         className="w-full"
                       />
                       <div className="flex justify-between text-sm text-muted-foreground">
-                        <span>{formatTime(playerState.currentTime)}</span>
-                        <span>{formatTime(playerState.duration)}</span>
+                        <span>{formatTime(player.currentTime)}</span>
+                        <span>{formatTime(player.duration)}</span>
                       </div>
                     </div>
                     
@@ -359,35 +272,40 @@ export const EnhancedMJPlayer = () => {
                       <Button
                         variant="outline"
                         size="icon"
-                        onClick={() => setPlayerState(prev => ({ ...prev, shuffle: !prev.shuffle }))}
-                        className={playerState.shuffle ? "bg-primary text-primary-foreground" : ""}
+                        onClick={player.toggleShuffle}
+                        className={player.shuffle ? "bg-primary text-primary-foreground" : ""}
                       >
                         <Shuffle className="h-4 w-4" />
                       </Button>
                       
-                      <Button variant="outline" size="icon" onClick={prevSong}>
+                      <Button variant="outline" size="icon" onClick={player.prevSong}>
                         <SkipBack className="h-4 w-4" />
                       </Button>
                       
-                      <Button size="icon" onClick={togglePlay}>
-                        {playerState.isPlaying ? (
+                      <Button size="icon" onClick={player.togglePlay}>
+                        {player.isPlaying ? (
                           <Pause className="h-5 w-5" />
                         ) : (
                           <Play className="h-5 w-5" />
                         )}
                       </Button>
                       
-                      <Button variant="outline" size="icon" onClick={nextSong}>
+                      <Button variant="outline" size="icon" onClick={player.nextSong}>
                         <SkipForward className="h-4 w-4" />
                       </Button>
                       
                       <Button
                         variant="outline"
                         size="icon"
-                        onClick={() => setPlayerState(prev => ({ ...prev, repeat: !prev.repeat }))}
-                        className={playerState.repeat ? "bg-primary text-primary-foreground" : ""}
+                        onClick={player.cycleRepeat}
+                        title={repeatLabels[player.repeat]}
+                        className={player.repeat !== "off" ? "bg-primary text-primary-foreground" : ""}
                       >
-                        <Repeat className="h-4 w-4" />
+                        {player.repeat === "one" ? (
+                          <Repeat1 className="h-4 w-4" />
+                        ) : (
+                          <Repeat className="h-4 w-4" />
+                        )}
                       </Button>
                     </div>
                     
@@ -395,16 +313,10 @@ export const EnhancedMJPlayer = () => {
                     <div className="flex items-center gap-2">
                       <Volume2 className="h-4 w-4" />
                       <Slider
-                        value={[playerState.volume * 100]}
+                        value={[player.volume * 100]}
                         max={100}
                         step={1}
-                        onValueChange={(value) => {
-                          const newVolume = value[0] / 100;
-                          setPlayerState(prev => ({ ...prev, volume: newVolume }));
-                          if (audioRef.current) {
-                            audioRef.current.volume = newVolume;
-                          }
-                        }}
+                        onValueChange={(value) => player.setVolume(value[0] / 100)}
                         className="flex-1"
                       />
                     </div>
@@ -429,9 +341,9 @@ export const EnhancedMJPlayer = () => {
                     <div
                       key={song.id}
                       className={`flex items-center justify-between p-2 rounded-lg cursor-pointer hover:bg-secondary/50 ${
-                        index === playerState.currentSongIndex ? "bg-secondary" : ""
+                        song.id === currentSong?.id ? "bg-secondary" : ""
                       }`}
-                      onClick={() => setPlayerState(prev => ({ ...prev, currentSongIndex: index }))}
+                      onClick={() => player.loadQueue(songs, index, true)}
                     >
                       <div>
                         <p className="font-medium">{song.title}</p>
@@ -439,11 +351,14 @@ export const EnhancedMJPlayer = () => {
                           <p className="text-sm text-muted-foreground">{song.artist}</p>
                         )}
                       </div>
-                      {index === playerState.currentSongIndex && playerState.isPlaying && (
-                        <div className="text-primary">
-                          <Music className="h-4 w-4" />
-                        </div>
-                      )}
+                      <div className="flex items-center gap-2">
+                        {song.id === currentSong?.id && player.isPlaying && (
+                          <div className="text-primary">
+                            <Music className="h-4 w-4" />
+                          </div>
+                        )}
+                        <SongMenu song={song} />
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -453,6 +368,8 @@ export const EnhancedMJPlayer = () => {
 
           {/* Right Panel - Controls */}
           <div className="space-y-6">
+            <QueuePanel />
+
             <Tabs value={activeTab} onValueChange={setActiveTab}>
               <TabsList className="grid w-full grid-cols-2">
                 <TabsTrigger value="songs">Add Song</TabsTrigger>
@@ -530,7 +447,7 @@ export const EnhancedMJPlayer = () => {
                         <div
                           key={playlist.id}
                           className="flex items-center justify-between p-2 rounded-lg hover:bg-secondary/50 cursor-pointer"
-                          onClick={() => setCurrentPlaylist(playlist)}
+                          onClick={() => playPlaylist(playlist)}
                         >
                           <div>
                             <p className="font-medium">{playlist.name}</p>
@@ -538,7 +455,7 @@ export const EnhancedMJPlayer = () => {
                               {playlist.songs?.length || 0} songs
                             </p>
                           </div>
-                          <List className="h-4 w-4" />
+                          <Play className="h-4 w-4" />
                         </div>
                       ))}
                     </div>
@@ -555,28 +472,17 @@ export const EnhancedMJPlayer = () => {
               <CardContent>
                 <div className="flex flex-wrap gap-2">
                   {categories.map((category) => (
-                    <Badge key={category.id} variant="secondary">
-                      {category.name}
-                    </Badge>
+                    <Link key={category.id} to={`/category/${category.id}`}>
+                      <Badge variant="secondary" className="cursor-pointer hover:bg-primary hover:text-primary-foreground">
+                        {category.name}
+                      </Badge>
+                    </Link>
                   ))}
                 </div>
               </CardContent>
             </Card>
           </div>
         </div>
-
-        {/* Audio Element */}
-        {currentSong && (
-          <audio
-            ref={audioRef}
-            src={currentSong.url}
-            onLoadedData={() => {
-              if (audioRef.current) {
-                audioRef.current.volume = playerState.volume;
-              }
-            }}
-          />
-        )}
       </div>
     </div>
   );
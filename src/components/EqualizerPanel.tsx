@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Trash2 } from "lucide-react";
+import {
+  BUILT_IN_PRESETS,
+  EQ_BANDS,
+  EQ_MAX_GAIN,
+  EQ_MIN_GAIN,
+  formatBand,
+  normalizeGains,
+} from "@/lib/equalizer";
+
+const CUSTOM_PRESET = "Custom";
+
+export const EqualizerPanel = () => {
+  const { preferences, updatePreferences, previewPreferences } = usePreferences();
+  const { toast } = useToast();
+  const [presetName, setPresetName] = useState("");
+
+  const gains = normalizeGains(preferences.eq_gains);
+  const customPresets = preferences.eq_custom_presets || [];
+  const allPresets = [...BUILT_IN_PRESETS, ...customPresets];
+  const isCustomPreset = customPresets.some((preset) => preset.name === preferences.eq_preset);
+
+  const selectPreset = (name: string) => {
+    const preset = allPresets.find((p) => p.name === name);
+    if (preset) {
+      updatePreferences({ eq_preset: preset.name, eq_gains: normalizeGains(preset.gains) });
+    }
+  };
+
+  // Heard straight away while dragging; saved once the slider is released
+  const setBandGain = (index: number, gain: number, save: boolean) => {
+    const nextGains = [...gains];
+    nextGains[index] = gain;
+    const changes = { eq_preset: CUSTOM_PRESET, eq_gains: nextGains };
+    if (save) {
+      updatePreferences(changes);
+    } else {
+      previewPreferences(changes);
+    }
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    if (BUILT_IN_PRESETS.some((preset) => preset.name === name) || name === CUSTOM_PRESET) {
+      toast({ title: "Error", description: "Please choose a different preset name", variant: "destructive" });
+      return;
+    }
+
+    updatePreferences({
+      eq_preset: name,
+      eq_custom_presets: [...customPresets.filter((preset) => preset.name !== name), { name, gains }],
+    });
+    setPresetName("");
+    toast({ title: "Preset saved", description: name });
+  };
+
+  const deletePreset = () => {
+    updatePreferences({
+      eq_preset: CUSTOM_PRESET,
+      eq_custom_presets: customPresets.filter((preset) => preset.name !== preferences.eq_preset),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="eq-switch">Equalizer</Label>
+        <Switch
+          id="eq-switch"
+          checked={preferences.eq_enabled}
+          onCheckedChange={(checked) => updatePreferences({ eq_enabled: checked })}
+        />
+      </div>
+
+      {preferences.eq_enabled && (
+        <>
+          <div className="flex gap-2">
+            <Select value={preferences.eq_preset} onValueChange={selectPreset}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {allPresets.map((preset) => (
+                  <SelectItem key={preset.name} value={preset.name}>
+                    {preset.name}
+                  </SelectItem>
+                ))}
+                {preferences.eq_preset === CUSTOM_PRESET && (
+                  <SelectItem value={CUSTOM_PRESET}>{CUSTOM_PRESET}</SelectItem>
+                )}
+              </SelectContent>
+            </Select>
+            {isCustomPreset && (
+              <Button variant="ghost" size="icon" onClick={deletePreset} title="Delete preset">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {EQ_BANDS.map((frequency, index) => (
+              <div key={frequency} className="flex items-center gap-2">
+                <span className="w-8 text-xs text-muted-foreground text-right">{formatBand(frequency)}</span>
+                <Slider
+                  value={[gains[index]]}
+                  min={EQ_MIN_GAIN}
+                  max={EQ_MAX_GAIN}
+                  step={1}
+                  onValueChange={(value) => setBandGain(index, value[0], false)}
+                  onValueCommit={(value) => setBandGain(index, value[0], true)}
+                  className="flex-1"
+                />
+                <span className="w-8 text-xs text-muted-foreground">
+                  {gains[index] > 0 ? `+${gains[index]}` : gains[index]}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              placeholder="Preset name"
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+            />
+            <Button variant="outline" size="icon" onClick={savePreset} title="Save preset">
+              <Save className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            The equalizer needs song links that allow cross-origin access. Other songs play without it.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
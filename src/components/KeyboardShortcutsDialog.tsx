@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  eventToKey,
+  formatKey,
+  isBindableKey,
+  resolveKeybindings,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  shortcutLabels,
+} from "@/lib/shortcuts";
+import { paletteShortcutLabel } from "@/lib/commands";
+
+interface KeyboardShortcutsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const KeyboardShortcutsDialog = ({ open, onOpenChange }: KeyboardShortcutsDialogProps) => {
+  const { preferences, updatePreferences } = usePreferences();
+  const { toast } = useToast();
+  const [recording, setRecording] = useState<ShortcutAction | null>(null);
+  const keybindings = resolveKeybindings(preferences.keybindings);
+
+  useEffect(() => {
+    if (!open) setRecording(null);
+  }, [open]);
+
+  // While remapping, the next key press becomes the new binding; Escape cancels
+  useEffect(() => {
+    if (!recording) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === "Escape") {
+        setRecording(null);
+        return;
+      }
+
+      const key = eventToKey(event);
+      if (!isBindableKey(key) || event.ctrlKey || event.metaKey || event.altKey) return;
+
+      const conflict = SHORTCUT_ACTIONS.find((action) => action !== recording && keybindings[action] === key);
+      if (conflict) {
+        toast({
+          title: "Key already in use",
+          description: `${formatKey(key)} is bound to "${shortcutLabels[conflict]}"`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      updatePreferences({ keybindings: { ...preferences.keybindings, [recording]: key } });
+      setRecording(null);
+    };
+
+    // Capture phase, so the dialog's own Escape handling doesn't close it
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [recording, keybindings, preferences.keybindings, updatePreferences, toast]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Keyboard Shortcuts</DialogTitle>
+          <DialogDescription>Click a key to change it.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-1">
+          {SHORTCUT_ACTIONS.map((action) => (
+            <div key={action} className="flex items-center justify-between py-1">
+              <span className="text-sm">{shortcutLabels[action]}</span>
+              <Button
+                variant={recording === action ? "default" : "outline"}
+                size="sm"
+                className="min-w-16 font-mono"
+                onClick={() => setRecording(recording === action ? null : action)}
+              >
+                {recording === action ? "Press a key…" : formatKey(keybindings[action])}
+              </Button>
+            </div>
+          ))}
+          <div className="flex items-center justify-between py-1">
+            <span className="text-sm">Command palette</span>
+            <span className="min-w-16 px-3 text-center text-sm font-mono text-muted-foreground">{paletteShortcutLabel()}</span>
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={Object.keys(preferences.keybindings || {}).length === 0}
+            onClick={() => updatePreferences({ keybindings: {} })}
+          >
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
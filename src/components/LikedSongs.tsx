@@ -0,0 +1,70 @@
+import { useLikes } from "@/hooks/useLikes";
+import { usePlayer } from "@/hooks/usePlayer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { SongMenu } from "@/components/SongMenu";
+import { Heart, Play } from "lucide-react";
+
+// The automatic "Liked Songs" playlist
+export const LikedSongs = () => {
+  const { likedSongs, toggleLike } = useLikes();
+  const player = usePlayer();
+
+  const playFrom = (index: number) => {
+    player.loadQueue(likedSongs, index, true, "liked");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <Heart className="h-5 w-5" />
+            Liked Songs ({likedSongs.length})
+          </CardTitle>
+          <Button size="sm" onClick={() => playFrom(0)} disabled={likedSongs.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Play All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {likedSongs.length === 0 ? (
+          <div className="text-center py-8">
+            <Heart className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">No liked songs yet</p>
+            <p className="text-sm text-muted-foreground">Tap the heart on any song to save it here</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {likedSongs.map((song, index) => (
+              <div key={song.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => playFrom(index)}>
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{song.title}</h3>
+                    <p className="text-xs text-muted-foreground truncate">{song.artist || "Unknown Artist"}</p>
+                  </div>
+                </div>
+                <div className="flex items-center">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-primary"
+                    onClick={() => toggleLike(song)}
+                    title="Remove from Liked Songs"
+                  >
+                    <Heart className="h-4 w-4 fill-current" />
+                  </Button>
+                  <SongMenu song={song} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,5 +1,11 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useKeyboardShortcuts, useShortcut } from "@/hooks/useKeyboardShortcuts";
+import { useLikes } from "@/hooks/useLikes";
+import { useParty } from "@/hooks/useParty";
+import { useCommandPalette } from "@/hooks/useCommandPalette";
+import { useRadio } from "@/hooks/useRadio";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
@@ -9,6 +15,7 @@ import { Slider } from "@/components/ui/slider";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { 
   Play, 
   Pause, 
@@ -16,58 +23,64 @@ import {
   SkipForward, 
   Shuffle, 
   Repeat, 
+  Repeat1,
   Download, 
   Heart, 
   List, 
+  ListMusic,
+  ListOrdered,
   Menu,
   Settings,
   User,
-  LogOut
+  LogOut,
+  Keyboard,
+  PartyPopper,
+  Search,
+  Command,
+  Radio,
+  X
 } from "lucide-react";
-
-interface Song {
-  id: string;
-  title: string;
-  url: string;
-  artist?: string;
-  uploaded_by?: string;
-}
-
-interface PlayerState {
-  isPlaying: boolean;
-  currentTime: number;
-  duration: number;
-  currentSongIndex: number;
-  volume: number;
-  shuffle: boolean;
-  repeat: boolean;
-}
+import { formatTime, repeatLabels, Song } from "@/lib/player";
+import { filterSongs } from "@/lib/search";
+import { paletteShortcutLabel } from "@/lib/commands";
+import { songArtwork } from "@/lib/artwork";
+import { QueuePanel } from "@/components/QueuePanel";
+import { PlaylistsPanel } from "@/components/PlaylistsPanel";
+import { SongMenu } from "@/components/SongMenu";
+import { PlaybackSettings } from "@/components/PlaybackSettings";
+import { EqualizerPanel } from "@/components/EqualizerPanel";
 
 export const MJPlayer = () => {
   const { user, signOut } = useAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
-  const audioRef = useRef<HTMLAudioElement>(null);
+  const player = usePlayer();
+  const { openShortcuts } = useKeyboardShortcuts();
+  const { openCommandPalette } = useCommandPalette();
+  const { likedSongs, isLiked, toggleLike } = useLikes();
+  const party = useParty();
+  const { station, stopRadio } = useRadio();
   const [isMysongsMode, setIsMysongsMode] = useState(true);
   const [mySongs, setMySongs] = useState<Song[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
   const [youtubeSongs, setYoutubeSongs] = useState<Song[]>([]);
   const [youtubeUrl, setYoutubeUrl] = useState("");
   const [showPlaylist, setShowPlaylist] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showPlaylists, setShowPlaylists] = useState(false);
+  const [showLiked, setShowLiked] = useState(false);
   const [sideMenuOpen, setSideMenuOpen] = useState(false);
+  const [songFilter, setSongFilter] = useState("");
+  const [filterFocusRequest, setFilterFocusRequest] = useState(0);
+  const filterRef = useRef<HTMLInputElement>(null);
   const [isAdmin, setIsAdmin] = useState(false);
-  
-  const [playerState, setPlayerState] = useState<PlayerState>({
-    isPlaying: false,
-    currentTime: 0,
-    duration: 0,
-    currentSongIndex: 0,
-    volume: 0.7,
-    shuffle: false,
-    repeat: false,
-  });
 
   const currentPlaylist = isMysongsMode ? mySongs : youtubeSongs;
-  const currentSong = currentPlaylist[playerState.currentSongIndex];
+  // The playlist panel can also show the automatic "Liked Songs" playlist
+  const showingLiked = isMysongsMode && showLiked;
+  const visibleSongs = showingLiked ? likedSongs : currentPlaylist;
+  const filteredSongs = filterSongs(visibleSongs, songFilter);
+  const { currentSong, loadQueue } = player;
 
   // Load data from Supabase and localStorage on mount
   useEffect(() => {
@@ -120,6 +133,20 @@ export const MJPlayer = () => {
     }
   };
 
+  // Categories are public, so everyone can browse them
+  useEffect(() => {
+    const loadCategories = async () => {
+      const { data, error } = await supabase.from("categories").select("id, name").order("name");
+      if (error) {
+        console.error("Error loading categories:", error);
+        return;
+      }
+      setCategories(data || []);
+    };
+
+    loadCategories();
+  }, []);
+
   useEffect(() => {
     localStorage.setItem("mjplayer-youtube", JSON.stringify(youtubeSongs));
   }, [youtubeSongs]);
@@ -128,81 +155,42 @@ export const MJPlayer = () => {
     localStorage.setItem("mjplayer-mode", isMysongsMode ? "mysongs" : "youtube");
   }, [isMysongsMode]);
 
-  // Audio event handlers
+  // Hand the visible list to the player engine if nothing is loaded yet
   useEffect(() => {
-    const audio = audioRef.current;
-    if (!audio) return;
-
-    const updateTime = () => {
-      setPlayerState(prev => ({
-        ...prev,
-        currentTime: audio.currentTime,
-        duration: audio.duration || 0,
-      }));
-    };
-
-    const handleEnded = () => {
-      if (playerState.repeat) {
-        audio.currentTime = 0;
-        audio.play();
-      } else {
-        nextSong();
-      }
-    };
-
-    audio.addEventListener("timeupdate", updateTime);
-    audio.addEventListener("loadedmetadata", updateTime);
-    audio.addEventListener("ended", handleEnded);
-
-    return () => {
-      audio.removeEventListener("timeupdate", updateTime);
-      audio.removeEventListener("loadedmetadata", updateTime);
-      audio.removeEventListener("ended", handleEnded);
-    };
-  }, [playerState.repeat]);
-
-  const togglePlay = () => {
-    const audio = audioRef.current;
-    if (!audio || !currentSong) return;
-
-    if (playerState.isPlaying) {
-      audio.pause();
-    } else {
-      audio.play();
+    if (!currentSong && currentPlaylist.length > 0) {
+      loadQueue(currentPlaylist);
     }
-    
-    setPlayerState(prev => ({ ...prev, isPlaying: !prev.isPlaying }));
-  };
+  }, [currentPlaylist, currentSong, loadQueue]);
 
-  const nextSong = () => {
-    if (currentPlaylist.length === 0) return;
-    
-    let nextIndex;
-    if (playerState.shuffle) {
-      nextIndex = Math.floor(Math.random() * currentPlaylist.length);
-    } else {
-      nextIndex = (playerState.currentSongIndex + 1) % currentPlaylist.length;
-    }
-    
-    setPlayerState(prev => ({ ...prev, currentSongIndex: nextIndex }));
+  // Switching between My Songs and YouTube swaps the list the player walks
+  const changeMode = (mysongs: boolean) => {
+    setIsMysongsMode(mysongs);
+    player.loadQueue(mysongs ? mySongs : youtubeSongs);
   };
 
-  const prevSong = () => {
-    if (currentPlaylist.length === 0) return;
-    
-    const prevIndex = playerState.currentSongIndex === 0 
-      ? currentPlaylist.length - 1 
-      : playerState.currentSongIndex - 1;
-    
-    setPlayerState(prev => ({ ...prev, currentSongIndex: prevIndex }));
+  // The search shortcut opens the song list and focuses its filter
+  useShortcut("focusSearch", () => {
+    setShowPlaylist(true);
+    setFilterFocusRequest((n) => n + 1);
+  });
+
+  useEffect(() => {
+    if (filterFocusRequest) filterRef.current?.focus();
+  }, [filterFocusRequest]);
+
+  // Enter in the filter runs a full search across the library
+  const handleFilterKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && songFilter.trim()) {
+      navigate(`/search?q=${encodeURIComponent(songFilter.trim())}`);
+    } else if (e.key === "Escape") {
+      setSongFilter("");
+    }
   };
 
-  const seekTo = (value: number[]) => {
-    const audio = audioRef.current;
-    if (!audio) return;
-    
-    audio.currentTime = value[0];
-    setPlayerState(prev => ({ ...prev, currentTime: value[0] }));
+  // Returns to the current party, or starts a new one with this user as host
+  const openParty = async () => {
+    const roomId = party.room && party.role ? party.room.id : await party.startParty();
+    if (roomId) navigate(`/party/${roomId}`);
   };
 
   const addMySong = async () => {
@@ -259,13 +247,6 @@ export const MJPlayer = () => {
     setYoutubeUrl("");
   };
 
-  const formatTime = (time: number) => {
-    if (isNaN(time)) return "0:00";
-    const minutes = Math.floor(time / 60);
-    const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
-  };
-
   return (
     <div className="min-h-screen bg-background text-foreground">
       <link href="https://fonts.googleapis.com/css2?family=Roboto:wght@300;400;500;700&display=swap" rel="stylesheet" />
@@ -279,7 +260,7 @@ export const MJPlayer = () => {
               <Menu className="h-6 w-6" />
             </Button>
           </SheetTrigger>
-          <SheetContent side="right" className="w-80">
+          <SheetContent side="right" className="w-80 overflow-y-auto">
             <div className="space-y-6 pt-6">
               {user ? (
                 <>
@@ -329,7 +310,7 @@ export const MJPlayer = () => {
                       <Switch 
                         id="mode-switch" 
                         checked={!isMysongsMode}
-                        onCheckedChange={(checked) => setIsMysongsMode(!checked)}
+                        onCheckedChange={(checked) => changeMode(!checked)}
                       />
                       <Label htmlFor="mode-switch">
                         {isMysongsMode ? "My Songs" : "YouTube"}
@@ -343,6 +324,55 @@ export const MJPlayer = () => {
                     >
                       Add My Song (Link)
                     </Button>
+
+                    <PlaybackSettings />
+                  </div>
+
+                  {/* Equalizer */}
+                  <div className="pt-4 border-t border-border">
+                    <EqualizerPanel />
+                  </div>
+
+                  {/* Listening party */}
+                  <div className="pt-4 border-t border-border">
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openParty();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <PartyPopper className="h-4 w-4 mr-2" />
+                      {party.room && party.role ? "Back to Party" : "Listen Together"}
+                    </Button>
+                  </div>
+
+                  {/* Keyboard shortcuts */}
+                  <div className="pt-4 border-t border-border">
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openShortcuts();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <Keyboard className="h-4 w-4 mr-2" />
+                      Keyboard Shortcuts
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openCommandPalette();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <Command className="h-4 w-4 mr-2" />
+                      Command Palette
+                      <span className="ml-auto text-xs text-muted-foreground">{paletteShortcutLabel()}</span>
+                    </Button>
                   </div>
 
                   {/* Logout */}
@@ -382,7 +412,7 @@ export const MJPlayer = () => {
                       <Switch 
                         id="mode-switch" 
                         checked={!isMysongsMode}
-                        onCheckedChange={(checked) => setIsMysongsMode(!checked)}
+                        onCheckedChange={(checked) => changeMode(!checked)}
                       />
                       <Label htmlFor="mode-switch">
                         {isMysongsMode ? "My Songs" : "YouTube"}
@@ -402,6 +432,55 @@ export const MJPlayer = () => {
                     >
                       Add My Song (Sign In Required)
                     </Button>
+
+                    <PlaybackSettings />
+                  </div>
+
+                  {/* Equalizer */}
+                  <div className="pt-4 border-t border-border">
+                    <EqualizerPanel />
+                  </div>
+
+                  {/* Listening party */}
+                  <div className="pt-4 border-t border-border">
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openParty();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <PartyPopper className="h-4 w-4 mr-2" />
+                      {party.room && party.role ? "Back to Party" : "Listen Together"}
+                    </Button>
+                  </div>
+
+                  {/* Keyboard shortcuts */}
+                  <div className="pt-4 border-t border-border">
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openShortcuts();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <Keyboard className="h-4 w-4 mr-2" />
+                      Keyboard Shortcuts
+                    </Button>
+                    <Button
+                      onClick={() => {
+                        setSideMenuOpen(false);
+                        openCommandPalette();
+                      }}
+                      className="w-full justify-start"
+                      variant="ghost"
+                    >
+                      <Command className="h-4 w-4 mr-2" />
+                      Command Palette
+                      <span className="ml-auto text-xs text-muted-foreground">{paletteShortcutLabel()}</span>
+                    </Button>
                   </div>
                 </>
               )}
@@ -412,15 +491,20 @@ export const MJPlayer = () => {
 
       {/* Main Player Area */}
       <div className="flex flex-col items-center justify-center p-8 space-y-8">
-        {/* Vinyl Record */}
-        <div className="relative">
+        {/* Vinyl Record, with the current song's artwork as its label */}
+        <div className={`relative w-48 h-48 ${player.isPlaying ? "vinyl-spinning" : ""}`}>
           <img 
             src="/lovable-uploads/66998a74-a7e0-4bb4-bc94-9e833b61c7b8.png"
             alt="Vinyl Record"
-            className={`w-48 h-48 rounded-full ${
-              playerState.isPlaying ? "vinyl-spinning" : ""
-            }`}
+            className="w-48 h-48 rounded-full"
           />
+          {currentSong && (
+            <img
+              src={songArtwork(currentSong)}
+              alt={`${currentSong.title} artwork`}
+              className="absolute inset-0 m-auto w-24 h-24 rounded-full object-cover"
+            />
+          )}
         </div>
 
         {/* Song Info */}
@@ -444,8 +528,15 @@ export const MJPlayer = () => {
             </Button>
           </a>
           
-          <Button variant="ghost" size="icon">
-            <Heart className="h-6 w-6" />
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => currentSong && toggleLike(currentSong)}
+            disabled={!currentSong}
+            title={currentSong && isLiked(currentSong.id) ? "Remove from Liked Songs" : "Save to Liked Songs"}
+            className={currentSong && isLiked(currentSong.id) ? "text-primary" : ""}
+          >
+            <Heart className={`h-6 w-6 ${currentSong && isLiked(currentSong.id) ? "fill-current" : ""}`} />
           </Button>
           
           <Button 
@@ -455,6 +546,34 @@ export const MJPlayer = () => {
           >
             <List className="h-6 w-6" />
           </Button>
+
+          <Button 
+            variant="ghost" 
+            size="icon"
+            onClick={() => setShowQueue(!showQueue)}
+            className={showQueue ? "text-primary" : ""}
+          >
+            <ListOrdered className="h-6 w-6" />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setShowPlaylists(!showPlaylists)}
+            className={showPlaylists ? "text-primary" : ""}
+            title="Playlists"
+          >
+            <ListMusic className="h-6 w-6" />
+          </Button>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/search")}
+            title="Search"
+          >
+            <Search className="h-6 w-6" />
+          </Button>
         </div>
 
         {/* Playback Controls */}
@@ -462,13 +581,13 @@ export const MJPlayer = () => {
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => setPlayerState(prev => ({ ...prev, shuffle: !prev.shuffle }))}
-            className={playerState.shuffle ? "text-primary" : ""}
+            onClick={player.toggleShuffle}
+            className={player.shuffle ? "text-primary" : ""}
           >
             <Shuffle className="h-5 w-5" />
           </Button>
           
-          <Button variant="ghost" size="icon" onClick={prevSong}>
+          <Button variant="ghost" size="icon" onClick={player.prevSong}>
             <SkipBack className="h-6 w-6" />
           </Button>
           
@@ -476,67 +595,132 @@ export const MJPlayer = () => {
             variant="outline" 
             size="icon" 
             className="h-12 w-12"
-            onClick={togglePlay}
+            onClick={player.togglePlay}
             disabled={!currentSong}
           >
-            {playerState.isPlaying ? (
+            {player.isPlaying ? (
               <Pause className="h-6 w-6" />
             ) : (
               <Play className="h-6 w-6" />
             )}
           </Button>
           
-          <Button variant="ghost" size="icon" onClick={nextSong}>
+          <Button variant="ghost" size="icon" onClick={player.nextSong}>
             <SkipForward className="h-6 w-6" />
           </Button>
           
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => setPlayerState(prev => ({ ...prev, repeat: !prev.repeat }))}
-            className={playerState.repeat ? "text-primary" : ""}
+            onClick={player.cycleRepeat}
+            title={repeatLabels[player.repeat]}
+            className={player.repeat !== "off" ? "text-primary" : ""}
           >
-            <Repeat className="h-5 w-5" />
+            {player.repeat === "one" ? (
+              <Repeat1 className="h-5 w-5" />
+            ) : (
+              <Repeat className="h-5 w-5" />
+            )}
           </Button>
         </div>
 
+        {station && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Radio className="h-4 w-4 text-primary" />
+            <span>{station.name} radio</span>
+            <Button variant="ghost" size="icon" className="h-6 w-6" onClick={stopRadio} title="Stop radio">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
         {/* Seek Bar */}
         <div className="w-full max-w-md space-y-2">
           <Slider
-            value={[playerState.currentTime]}
-            max={playerState.duration || 100}
+            value={[player.currentTime]}
+            max={player.duration || 100}
             step={1}
-            onValueChange={seekTo}
+            onValueChange={(value) => player.seekTo(value[0])}
             className="w-full"
             disabled={!currentSong}
           />
           <div className="flex justify-between text-sm text-muted-foreground">
-            <span>{formatTime(playerState.currentTime)}</span>
-            <span>{formatTime(playerState.duration)}</span>
+            <span>{formatTime(player.currentTime)}</span>
+            <span>{formatTime(player.duration)}</span>
           </div>
         </div>
 
-        {/* Playlist Display */}
-        {showPlaylist && (
-          <div className="w-full max-w-md bg-card p-4 rounded-lg">
-            <h3 className="font-semibold mb-2">
-              {isMysongsMode ? "My Songs" : "YouTube Playlist"}
-            </h3>
-            <div className="space-y-2 max-h-40 overflow-y-auto">
-              {currentPlaylist.map((song, index) => (
-                <div
-                  key={song.id}
-                  className={`p-2 rounded cursor-pointer ${
-                    index === playerState.currentSongIndex
-                      ? "bg-primary text-primary-foreground"
-                      : "hover:bg-secondary"
-                  }`}
-                  onClick={() => setPlayerState(prev => ({ ...prev, currentSongIndex: index }))}
-                >
-                  {song.title}
+        {/* Playlist, Up Next and Playlists Display */}
+        {(showPlaylist || showQueue || showPlaylists) && (
+          <div className="w-full flex flex-col md:flex-row md:justify-center items-center md:items-start gap-4">
+            {showPlaylist && (
+              <div className="w-full max-w-md bg-card p-4 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="font-semibold">
+                    {showingLiked ? "Liked Songs" : isMysongsMode ? "My Songs" : "YouTube Playlist"}
+                  </h3>
+                  {isMysongsMode && user && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowLiked(!showLiked)}
+                      className={showLiked ? "text-primary" : ""}
+                    >
+                      <Heart className={`h-4 w-4 mr-1 ${showLiked ? "fill-current" : ""}`} />
+                      Liked
+                    </Button>
+                  )}
                 </div>
-              ))}
-            </div>
+                {isMysongsMode && categories.length > 0 && (
+                  <div className="flex flex-wrap gap-1 mb-2">
+                    {categories.map((category) => (
+                      <Badge
+                        key={category.id}
+                        variant="secondary"
+                        className="cursor-pointer hover:bg-primary hover:text-primary-foreground"
+                        onClick={() => navigate(`/category/${category.id}`)}
+                      >
+                        {category.name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <Input
+                  ref={filterRef}
+                  value={songFilter}
+                  onChange={(e) => setSongFilter(e.target.value)}
+                  onKeyDown={handleFilterKeyDown}
+                  placeholder="Filter songs, Enter to search everything"
+                  className="mb-2 h-8"
+                />
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {showingLiked && likedSongs.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-2">No liked songs yet</p>
+                  )}
+                  {visibleSongs.length > 0 && filteredSongs.length === 0 && (
+                    <p className="text-sm text-muted-foreground text-center py-2">No songs match "{songFilter}"</p>
+                  )}
+                  {filteredSongs.map((song, index) => (
+                    <div
+                      key={song.id}
+                      className={`flex items-center justify-between p-2 rounded cursor-pointer ${
+                        song.id === currentSong?.id
+                          ? "bg-primary text-primary-foreground"
+                          : "hover:bg-secondary"
+                      }`}
+                      onClick={() => player.loadQueue(filteredSongs, index, true, showingLiked ? "liked" : "library")}
+                    >
+                      <span className="truncate">{song.title}</span>
+                      <SongMenu song={song} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {showQueue && <QueuePanel />}
+
+            {showPlaylists && <PlaylistsPanel />}
           </div>
         )}
       </div>
@@ -568,16 +752,6 @@ export const MJPlayer = () => {
       >
         Advertisement Placeholder
       </div>
-
-      {/* Audio Element */}
-      {currentSong && (
-        <audio
-          ref={audioRef}
-          src={currentSong.url}
-          onPlay={() => setPlayerState(prev => ({ ...prev, isPlaying: true }))}
-          onPause={() => setPlayerState(prev => ({ ...prev, isPlaying: false }))}
-        />
-      )}
     </div>
   );
 };
\ No newline at end of file
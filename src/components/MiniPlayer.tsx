@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { usePlayer } from "@/hooks/usePlayer";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { ChevronDown, ChevronUp, Maximize2, Pause, Play, SkipBack, SkipForward } from "lucide-react";
+import { formatTime } from "@/lib/player";
+import { songArtwork } from "@/lib/artwork";
+
+// Routes that already render the full player, or where playback controls make no sense
+const HIDDEN_ROUTES = ["/", "/auth"];
+
+export const MiniPlayer = () => {
+  const player = usePlayer();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const [collapsed, setCollapsed] = useState(() => localStorage.getItem("mjplayer-mini-collapsed") === "true");
+
+  useEffect(() => {
+    localStorage.setItem("mjplayer-mini-collapsed", collapsed ? "true" : "false");
+  }, [collapsed]);
+
+  const { currentSong } = player;
+  if (!currentSong || HIDDEN_ROUTES.includes(location.pathname)) return null;
+
+  return (
+    <div className="fixed bottom-0 left-0 right-0 z-40 bg-card border-t border-border shadow-lg">
+      {!collapsed && (
+        <div className="flex items-center gap-2 px-4 pt-2 text-xs text-muted-foreground">
+          <span className="w-10 text-right">{formatTime(player.currentTime)}</span>
+          <Slider
+            value={[player.currentTime]}
+            max={player.duration || 100}
+            step={1}
+            onValueChange={(value) => player.seekTo(value[0])}
+            className="flex-1"
+          />
+          <span className="w-10">{formatTime(player.duration)}</span>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3 px-4 py-2">
+        <img
+          src={songArtwork(currentSong)}
+          alt={`${currentSong.title} artwork`}
+          className={`h-10 w-10 rounded-full object-cover ${player.isPlaying ? "vinyl-spinning" : ""}`}
+        />
+
+        <div className="flex-1 min-w-0">
+          <p className="font-medium truncate">{currentSong.title}</p>
+          {currentSong.artist && !collapsed && (
+            <p className="text-sm text-muted-foreground truncate">{currentSong.artist}</p>
+          )}
+        </div>
+
+        {!collapsed && (
+          <Button variant="ghost" size="icon" onClick={player.prevSong}>
+            <SkipBack className="h-5 w-5" />
+          </Button>
+        )}
+
+        <Button variant="outline" size="icon" onClick={player.togglePlay}>
+          {player.isPlaying ? <Pause className="h-5 w-5" /> : <Play className="h-5 w-5" />}
+        </Button>
+
+        <Button variant="ghost" size="icon" onClick={player.nextSong}>
+          <SkipForward className="h-5 w-5" />
+        </Button>
+
+        <Button variant="ghost" size="icon" onClick={() => navigate("/")} title="Open full player">
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => setCollapsed(!collapsed)}
+          title={collapsed ? "Expand mini player" : "Collapse mini player"}
+        >
+          {collapsed ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useSleepTimer } from "@/hooks/useSleepTimer";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { NormalizationMode } from "@/lib/loudness";
+import { describeSleepTimer, SLEEP_TIMER_MINUTES } from "@/lib/sleepTimer";
+
+export const PlaybackSettings = () => {
+  const { preferences, updatePreferences } = usePreferences();
+  const { timer, remaining, startSleepTimer, sleepAtEndOfSong, cancelSleepTimer } = useSleepTimer();
+  // The value being dragged, saved once the slider is released
+  const [draggedCrossfade, setDraggedCrossfade] = useState<number | null>(null);
+  const crossfade = draggedCrossfade ?? preferences.crossfade_seconds;
+
+  const changeSleepTimer = (value: string) => {
+    if (value === "off") cancelSleepTimer();
+    else if (value === "end") sleepAtEndOfSong();
+    else startSleepTimer(Number(value));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="crossfade">Crossfade</Label>
+          <span className="text-sm text-muted-foreground">
+            {crossfade === 0 ? "Off (gapless)" : `${crossfade}s`}
+          </span>
+        </div>
+        <Slider
+          id="crossfade"
+          value={[crossfade]}
+          min={0}
+          max={12}
+          step={1}
+          onValueChange={(value) => setDraggedCrossfade(value[0])}
+          onValueCommit={(value) => {
+            setDraggedCrossfade(null);
+            updatePreferences({ crossfade_seconds: value[0] });
+          }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="normalize-switch">Normalize volume</Label>
+          <Switch
+            id="normalize-switch"
+            checked={preferences.normalize_volume}
+            onCheckedChange={(checked) => updatePreferences({ normalize_volume: checked })}
+          />
+        </div>
+        {preferences.normalize_volume && (
+          <>
+            <Select
+              value={preferences.normalization_mode}
+              onValueChange={(value) => updatePreferences({ normalization_mode: value as NormalizationMode })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="track">Track (every song equally loud)</SelectItem>
+                <SelectItem value="album">Album (keep differences within an album)</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Applies to songs whose loudness has been analyzed. Like the equalizer, it needs song links that allow cross-origin access; other songs play unchanged.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="sleep-timer">Sleep timer</Label>
+          <span className="text-sm text-muted-foreground">{describeSleepTimer(timer, remaining)}</span>
+        </div>
+        {/* Always shows the placeholder, so the same option can be picked again to restart it */}
+        <Select value="" onValueChange={changeSleepTimer}>
+          <SelectTrigger id="sleep-timer">
+            <SelectValue placeholder="Pause playback after..." />
+          </SelectTrigger>
+          <SelectContent>
+            {SLEEP_TIMER_MINUTES.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>
+                {minutes} minutes
+              </SelectItem>
+            ))}
+            <SelectItem value="end">End of current song</SelectItem>
+            {timer && <SelectItem value="off">Turn off</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PlaylistDetails } from "@/lib/playlists";
+
+interface PlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing details when editing, or undefined to create a new playlist
+  playlist?: PlaylistDetails;
+  onSave: (details: PlaylistDetails) => Promise<unknown>;
+}
+
+export const PlaylistDialog = ({ open, onOpenChange, playlist, onSave }: PlaylistDialogProps) => {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [saving, setSaving] = useState(false);
+  // Read when the dialog opens, so background updates don't reset the form
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
+
+  useEffect(() => {
+    if (!open) return;
+    const current = playlistRef.current;
+    setName(current?.name || "");
+    setDescription(current?.description || "");
+    setIsPublic(current?.is_public || false);
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    setSaving(true);
+    await onSave({ name: name.trim(), description: description.trim() || null, is_public: isPublic });
+    setSaving(false);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{playlist ? "Edit playlist" : "New playlist"}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="playlist-name">Name</Label>
+            <Input
+              id="playlist-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Playlist name"
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="playlist-description">Description</Label>
+            <Textarea
+              id="playlist-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="playlist-public">Public</Label>
+            <Switch id="playlist-public" checked={isPublic} onCheckedChange={setIsPublic} />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!name.trim() || saving}>
+              {playlist ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Download } from "lucide-react";
+import { Song } from "@/lib/player";
+import { Playlist } from "@/lib/playlists";
+import {
+  EntryMatch,
+  isCreatableEntry,
+  matchEntries,
+  parsePlaylist,
+  PLAYLIST_FILE_ACCEPT,
+  PlaylistEntry,
+} from "@/lib/playlistFormats";
+
+interface PlaylistImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported?: (playlist: Playlist) => void;
+}
+
+interface ImportResult {
+  playlist: Playlist;
+  added: number;
+  created: number;
+  skipped: EntryMatch[];
+}
+
+const reasonLabels: Record<EntryMatch["reason"], string> = {
+  url: "Matched by link",
+  title: "Matched by title",
+  not_found: "No matching song",
+  ambiguous: "Several songs have this title",
+};
+
+const describeEntry = (entry: PlaylistEntry) =>
+  entry.artist ? `${entry.artist} - ${entry.title}` : entry.title;
+
+const downloadReport = (name: string, skipped: EntryMatch[]) => {
+  const lines = [
+    `Import report for "${name}"`,
+    `${skipped.length} entries were not added:`,
+    "",
+    ...skipped.map(({ entry, reason }) => `${describeEntry(entry)}\t${entry.location}\t${reasonLabels[reason]}`),
+  ];
+  const blob = new Blob([lines.join("\n") + "\n"], { type: "text/plain;charset=utf-8" });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${name} - import report.txt`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+export const PlaylistImportDialog = ({ open, onOpenChange, onImported }: PlaylistImportDialogProps) => {
+  const { user } = useAuth();
+  const { createPlaylist } = usePlaylists();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [matches, setMatches] = useState<EntryMatch[] | null>(null);
+  // Indices of unmatched entries to add as new songs
+  const [toCreate, setToCreate] = useState<Set<number>>(new Set());
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<ImportResult | null>(null);
+
+  useEffect(() => {
+    if (open) return;
+    setName("");
+    setMatches(null);
+    setToCreate(new Set());
+    setResult(null);
+  }, [open]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const parsed = parsePlaylist(file.name, await file.text());
+      if (parsed.entries.length === 0) {
+        toast({ title: "Nothing to import", description: "No tracks were found in this file", variant: "destructive" });
+        return;
+      }
+
+      const { data, error } = await supabase.from("songs").select("*");
+      if (error) throw error;
+
+      const matched = matchEntries(parsed.entries, data || []);
+      setName(parsed.name || "Imported playlist");
+      setMatches(matched);
+      setToCreate(new Set(
+        matched.map((match, index) => (!match.song && isCreatableEntry(match.entry) ? index : -1)).filter((i) => i >= 0)
+      ));
+    } catch (error) {
+      console.error("Error reading playlist:", error);
+      toast({ title: "Error reading playlist", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+      e.target.value = "";
+    }
+  };
+
+  const toggleCreate = (index: number, checked: boolean) => {
+    setToCreate((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(index);
+      else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (!matches || !name.trim()) return;
+
+    setBusy(true);
+    try {
+      const createIndices = [...toCreate];
+      const createdSongs = new Map<number, Song>();
+      if (createIndices.length > 0) {
+        const { data, error } = await supabase
+          .from("songs")
+          .insert(createIndices.map((index) => ({
+            title: matches[index].entry.title || matches[index].entry.location,
+            artist: matches[index].entry.artist,
+            url: matches[index].entry.location,
+            duration: matches[index].entry.duration,
+            uploaded_by: user?.id,
+          })))
+          .select();
+        if (error) throw error;
+        // Inserted rows come back in the order they were sent
+        (data || []).forEach((song, i) => createdSongs.set(createIndices[i], song));
+      }
+
+      const songs = matches
+        .map((match, index) => match.song || createdSongs.get(index))
+        .filter(Boolean);
+      const skipped = matches.filter((match, index) => !match.song && !createdSongs.has(index));
+
+      const playlist = await createPlaylist({ name: name.trim(), description: null, is_public: false }, songs);
+      if (!playlist) return;
+
+      setResult({ playlist, added: songs.length, created: createdSongs.size, skipped });
+      onImported?.(playlist);
+    } catch (error) {
+      console.error("Error importing playlist:", error);
+      toast({ title: "Error importing playlist", description: error.message, variant: "destructive" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const unmatched = matches
+    ? matches.map((match, index) => ({ match, index })).filter(({ match }) => !match.song)
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import playlist</DialogTitle>
+          <DialogDescription>M3U, M3U8, PLS and XSPF files are supported.</DialogDescription>
+        </DialogHeader>
+
+        {result ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Added {result.added} songs to "{result.playlist.name}"
+              {result.created > 0 && `, including ${result.created} new songs`}.
+            </p>
+            {result.skipped.length > 0 && (
+              <>
+                <p className="text-sm text-muted-foreground">{result.skipped.length} entries were not added:</p>
+                <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                  {result.skipped.map(({ entry, reason }, index) => (
+                    <div key={index} className="p-2 border rounded">
+                      <p className="truncate">{describeEntry(entry)}</p>
+                      <p className="text-xs text-muted-foreground truncate">{reasonLabels[reason]} · {entry.location}</p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+            <DialogFooter>
+              {result.skipped.length > 0 && (
+                <Button variant="outline" onClick={() => downloadReport(result.playlist.name, result.skipped)}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download report
+                </Button>
+              )}
+              <Button onClick={() => onOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        ) : matches ? (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="import-name">Playlist name</Label>
+              <Input id="import-name" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <p className="text-sm">
+              {matches.length - unmatched.length} of {matches.length} entries matched songs in the library.
+            </p>
+            {unmatched.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                {unmatched.map(({ match, index }) => {
+                  const creatable = isCreatableEntry(match.entry);
+                  return (
+                    <div key={index} className="flex items-center gap-2 p-2 border rounded">
+                      <Checkbox
+                        id={`import-entry-${index}`}
+                        checked={toCreate.has(index)}
+                        disabled={!creatable}
+                        onCheckedChange={(checked) => toggleCreate(index, checked === true)}
+                      />
+                      <label htmlFor={`import-entry-${index}`} className="flex-1 min-w-0">
+                        <p className="truncate">{describeEntry(match.entry)}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {reasonLabels[match.reason]} · {creatable ? "Create as new song" : "Not a web link, will be skipped"}
+                        </p>
+                      </label>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+            <DialogFooter>
+              <Button onClick={handleImport} disabled={busy || !name.trim()}>
+                {busy ? "Importing..." : "Import"}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="import-file">Playlist file</Label>
+            <Input id="import-file" type="file" accept={PLAYLIST_FILE_ACCEPT} onChange={handleFile} disabled={busy} />
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
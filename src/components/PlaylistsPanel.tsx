@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useProfileNames } from "@/hooks/useProfileNames";
+import { useShareCard } from "@/hooks/useShareCard";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArtworkDialog } from "@/components/ArtworkDialog";
+import { CollaboratorsDialog } from "@/components/CollaboratorsDialog";
+import { PlaylistDialog } from "@/components/PlaylistDialog";
+import { PlaylistImportDialog } from "@/components/PlaylistImportDialog";
+import { SmartPlaylistDialog } from "@/components/SmartPlaylistDialog";
+import { SongMenu } from "@/components/SongMenu";
+import {
+  ArrowLeft,
+  Download,
+  GripVertical,
+  Link2,
+  ListMusic,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  Share2,
+  Sparkles,
+  Trash2,
+  Upload,
+  Users,
+  X,
+} from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { isCollaborative, Playlist } from "@/lib/playlists";
+import { downloadPlaylist, PLAYLIST_FORMATS } from "@/lib/playlistFormats";
+import { generateArtwork, playlistArtwork } from "@/lib/artwork";
+
+interface PlaylistViewProps {
+  playlist: Playlist;
+  onBack: () => void;
+}
+
+const PlaylistView = ({ playlist, onBack }: PlaylistViewProps) => {
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { updatePlaylist, deletePlaylist, removeFromPlaylist, reorderPlaylist, refreshSmartPlaylist } = usePlaylists();
+  const [editing, setEditing] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [showCollaborators, setShowCollaborators] = useState(false);
+  const [editingArtwork, setEditingArtwork] = useState(false);
+  const { toast } = useToast();
+  const { sharePlaylist } = useShareCard();
+  // Collaborators can change the songs; only the owner can change the playlist itself
+  const isOwner = playlist.user_id === user?.id;
+  const collaborative = isCollaborative(playlist);
+  const names = useProfileNames(collaborative ? Object.values(playlist.addedBy) : []);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const playFrom = (index: number) => {
+    player.loadQueue(playlist.songs, index, true, "playlist");
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the playlist "${playlist.name}"?`)) return;
+    await deletePlaylist(playlist.id);
+    onBack();
+  };
+
+  // Smart playlist songs come from the rules, so they can't be edited by hand
+  const smart = !!playlist.rules;
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refreshSmartPlaylist(playlist.id);
+    setRefreshing(false);
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/playlist/${playlist.id}`);
+      toast({ title: "Link copied", description: "Anyone with the link can view this playlist" });
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      reorderPlaylist(playlist.id, dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <>
+      <div className="flex items-center gap-1 mb-1">
+        <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={onBack} title="All playlists">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <button
+          type="button"
+          className="shrink-0 rounded disabled:cursor-default"
+          onClick={() => setEditingArtwork(true)}
+          disabled={!isOwner}
+          title={isOwner ? "Change artwork" : undefined}
+        >
+          <img src={playlistArtwork(playlist)} alt={`${playlist.name} artwork`} className="h-8 w-8 rounded object-cover" />
+        </button>
+        <h3 className="font-semibold truncate flex-1">{playlist.name}</h3>
+        {smart && isOwner && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={handleRefresh}
+            disabled={refreshing}
+            title="Refresh songs"
+          >
+            <RefreshCw className={`h-4 w-4 ${refreshing ? "animate-spin" : ""}`} />
+          </Button>
+        )}
+        {playlist.is_public && (
+          <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={copyLink} title="Copy share link">
+            <Link2 className="h-4 w-4" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => sharePlaylist(playlist)}
+          title="Share playlist"
+        >
+          <Share2 className="h-4 w-4" />
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" title="Export playlist">
+              <Download className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {PLAYLIST_FORMATS.map(({ format, label }) => (
+              <DropdownMenuItem key={format} onSelect={() => downloadPlaylist(playlist, format)}>
+                Export as {label}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        {!smart && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => setShowCollaborators(true)}
+            title="Collaborators"
+          >
+            <Users className="h-4 w-4" />
+          </Button>
+        )}
+        {isOwner && (
+          <>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setEditing(true)} title="Edit playlist">
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={handleDelete} title="Delete playlist">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </>
+        )}
+      </div>
+      {smart && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
+          <Sparkles className="h-3 w-3" />
+          Smart playlist
+          {playlist.rules_refreshed_at &&
+            ` · updated ${formatDistanceToNow(new Date(playlist.rules_refreshed_at), { addSuffix: true })}`}
+        </p>
+      )}
+      {playlist.description && (
+        <p className="text-sm text-muted-foreground mb-2">{playlist.description}</p>
+      )}
+      <div className="flex items-center justify-between mb-2">
+        {isOwner ? (
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`playlist-public-${playlist.id}`}
+              checked={playlist.is_public}
+              onCheckedChange={(checked) => updatePlaylist(playlist.id, { is_public: checked })}
+            />
+            <Label htmlFor={`playlist-public-${playlist.id}`}>Public</Label>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Shared with you</p>
+        )}
+        <Button size="sm" onClick={() => playFrom(0)} disabled={playlist.songs.length === 0}>
+          <Play className="h-4 w-4 mr-2" />
+          Play
+        </Button>
+      </div>
+
+      {playlist.songs.length === 0 ? (
+        <p className="text-sm text-muted-foreground p-2">
+          {smart ? "No songs match these rules yet." : 'No songs yet. Use "Add to playlist" on any song.'}
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {playlist.songs.map((song, index) => (
+            <div
+              key={song.id}
+              draggable={!smart}
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex(null)}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`flex items-center gap-2 p-2 rounded hover:bg-secondary ${
+                dropIndex === index && dragIndex !== index ? "border-t-2 border-primary" : ""
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              {!smart && <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />}
+              <button className="flex-1 min-w-0 text-left truncate" onClick={() => playFrom(index)}>
+                {song.title}
+                {song.artist && <span className="text-sm text-muted-foreground"> · {song.artist}</span>}
+                {collaborative && playlist.addedBy[song.id] && (
+                  <span className="block text-xs text-muted-foreground truncate">
+                    Added by {playlist.addedBy[song.id] === user?.id ? "you" : names[playlist.addedBy[song.id]]}
+                  </span>
+                )}
+              </button>
+              {!smart && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  onClick={() => removeFromPlaylist(playlist.id, song.id)}
+                  title="Remove from playlist"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+              <SongMenu song={song} playlistId={smart ? undefined : playlist.id} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ArtworkDialog
+        open={editingArtwork}
+        onOpenChange={setEditingArtwork}
+        name={playlist.name}
+        artworkUrl={playlist.artwork_url}
+        fallbackUrl={generateArtwork(playlist.name)}
+        onSave={(artworkUrl) => updatePlaylist(playlist.id, { artwork_url: artworkUrl })}
+      />
+
+      <CollaboratorsDialog
+        open={showCollaborators}
+        onOpenChange={setShowCollaborators}
+        playlist={playlist}
+        onLeft={onBack}
+      />
+
+      {smart ? (
+        <SmartPlaylistDialog open={editing} onOpenChange={setEditing} playlist={playlist} />
+      ) : (
+        <PlaylistDialog
+          open={editing}
+          onOpenChange={setEditing}
+          playlist={playlist}
+          onSave={(details) => updatePlaylist(playlist.id, details)}
+        />
+      )}
+    </>
+  );
+};
+
+export const PlaylistsPanel = () => {
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { playlists, loading, createPlaylist } = usePlaylists();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [creatingSmart, setCreatingSmart] = useState(false);
+
+  const selected = playlists.find((playlist) => playlist.id === selectedId);
+
+  return (
+    <div className="w-full max-w-md bg-card p-4 rounded-lg">
+      {selected ? (
+        <PlaylistView playlist={selected} onBack={() => setSelectedId(null)} />
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold">Playlists</h3>
+            {user && (
+              <div className="flex items-center">
+                <Button variant="ghost" size="sm" onClick={() => setImporting(true)}>
+                  <Upload className="h-4 w-4 mr-1" />
+                  Import
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setCreatingSmart(true)}>
+                  <Sparkles className="h-4 w-4 mr-1" />
+                  Smart
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setCreating(true)}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New
+                </Button>
+              </div>
+            )}
+          </div>
+
+          {!user ? (
+            <p className="text-sm text-muted-foreground p-2">Sign in to create playlists.</p>
+          ) : playlists.length === 0 ? (
+            <p className="text-sm text-muted-foreground p-2">
+              {loading ? "Loading playlists..." : "No playlists yet."}
+            </p>
+          ) : (
+            <div className="space-y-1 max-h-40 overflow-y-auto">
+              {playlists.map((playlist) => (
+                <div
+                  key={playlist.id}
+                  className="flex items-center gap-2 p-2 rounded cursor-pointer hover:bg-secondary"
+                  onClick={() => setSelectedId(playlist.id)}
+                >
+                  {playlist.rules ? (
+                    <Sparkles className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  ) : (
+                    <ListMusic className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{playlist.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {playlist.songs.length} songs
+                      {playlist.user_id !== user.id ? " · Shared with you" : playlist.is_public ? " · Public" : ""}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    disabled={playlist.songs.length === 0}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      player.loadQueue(playlist.songs, 0, true, "playlist");
+                    }}
+                    title="Play playlist"
+                  >
+                    <Play className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      <PlaylistDialog
+        open={creating}
+        onOpenChange={setCreating}
+        onSave={async (details) => {
+          const playlist = await createPlaylist(details);
+          if (playlist) setSelectedId(playlist.id);
+        }}
+      />
+
+      <SmartPlaylistDialog
+        open={creatingSmart}
+        onOpenChange={setCreatingSmart}
+        onSaved={(playlist) => setSelectedId(playlist.id)}
+      />
+
+      <PlaylistImportDialog
+        open={importing}
+        onOpenChange={setImporting}
+        onImported={(playlist) => setSelectedId(playlist.id)}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { usePlayer } from "@/hooks/usePlayer";
+import { Button } from "@/components/ui/button";
+import { GripVertical, X } from "lucide-react";
+
+export const QueuePanel = () => {
+  const player = usePlayer();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const { queue, currentIndex, currentSong } = player;
+  const upcoming = queue
+    .map((item, index) => ({ item, index }))
+    .filter(({ index }) => index > currentIndex);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      player.moveInQueue(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="w-full max-w-md bg-card p-4 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-semibold">Up Next</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={player.clearQueue}
+          disabled={upcoming.length === 0}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {currentSong && (
+        <div className="p-2 mb-2 rounded bg-primary text-primary-foreground">
+          <p className="text-xs opacity-80">Now playing</p>
+          <p className="truncate">{currentSong.title}</p>
+        </div>
+      )}
+
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-muted-foreground p-2">
+          Nothing queued. Use "Play next" or "Add to queue" on any song.
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {upcoming.map(({ item, index }) => (
+            <div
+              key={item.queueId}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(index);
+              }}
+              onDragLeave={() => setDropIndex(null)}
+              onDrop={() => handleDrop(index)}
+              onDragEnd={() => {
+                setDragIndex(null);
+                setDropIndex(null);
+              }}
+              className={`flex items-center gap-2 p-2 rounded hover:bg-secondary ${
+                dropIndex === index && dragIndex !== index ? "border-t-2 border-primary" : ""
+              } ${dragIndex === index ? "opacity-50" : ""}`}
+            >
+              <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+              <button
+                className="flex-1 min-w-0 text-left truncate"
+                onClick={() => player.playAt(index)}
+              >
+                {item.title}
+                {item.artist && (
+                  <span className="text-sm text-muted-foreground"> · {item.artist}</span>
+                )}
+              </button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 shrink-0"
+                onClick={() => player.removeFromQueue(index)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
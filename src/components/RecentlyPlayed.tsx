@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { usePreferences } from "@/hooks/usePreferences";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SongMenu } from "@/components/SongMenu";
+import { History, Play, RefreshCw, Trash2 } from "lucide-react";
+import { formatTime, Song } from "@/lib/player";
+
+interface HistoryEntry {
+  id: string;
+  started_at: string;
+  seconds_listened: number;
+  completed: boolean;
+  song: Song;
+}
+
+const HISTORY_LIMIT = 50;
+
+export const RecentlyPlayed = () => {
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { preferences, updatePreferences } = usePreferences();
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from("listening_history")
+        .select("id, started_at, seconds_listened, completed, songs(*)")
+        .eq("user_id", user.id)
+        .order("started_at", { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      } else {
+        setEntries(
+          (data || [])
+            .filter((row) => row.songs)
+            .map(({ songs, ...row }) => ({ ...row, song: songs as Song }))
+        );
+      }
+    } catch (error) {
+      console.error("Error loading listening history:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const clearHistory = async () => {
+    if (!user || !confirm("Clear your entire listening history?")) return;
+
+    const { error } = await supabase
+      .from("listening_history")
+      .delete()
+      .eq("user_id", user.id);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setEntries([]);
+      toast({ title: "History cleared" });
+    }
+  };
+
+  const playEntry = (index: number) => {
+    player.loadQueue(entries.map((entry) => entry.song), index, true, "history");
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recently Played
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <Button size="icon" variant="ghost" onClick={loadHistory} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="outline" onClick={clearHistory} disabled={entries.length === 0}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Clear
+            </Button>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2 pt-2">
+          <Switch
+            id="pause-history"
+            checked={preferences.history_paused}
+            onCheckedChange={(checked) => updatePreferences({ history_paused: checked })}
+          />
+          <Label htmlFor="pause-history">Pause history</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-8">Loading...</p>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8">
+            <History className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+            <p className="text-muted-foreground">Nothing played yet</p>
+            <p className="text-sm text-muted-foreground">
+              Songs show up here after you listen for at least 30 seconds
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {entries.map((entry, index) => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={() => playEntry(index)}>
+                    <Play className="h-4 w-4" />
+                  </Button>
+                  <div className="min-w-0">
+                    <h3 className="font-semibold truncate">{entry.song.title}</h3>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {entry.song.artist || "Unknown Artist"} ·{" "}
+                      {formatDistanceToNow(new Date(entry.started_at), { addSuffix: true })} ·{" "}
+                      {entry.completed ? "Finished" : `Listened ${formatTime(entry.seconds_listened)}`}
+                    </p>
+                  </div>
+                </div>
+                <SongMenu song={entry.song} />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
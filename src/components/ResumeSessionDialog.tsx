@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Laptop, Smartphone } from "lucide-react";
+import { formatTime } from "@/lib/player";
+import { fromSessionRow, getDeviceId, loadStoredPlayback, PlaybackSession } from "@/lib/session";
+
+// Sessions older than this are not worth offering
+const MAX_SESSION_AGE_DAYS = 30;
+
+export const ResumeSessionDialog = () => {
+  const { user, loading } = useAuth();
+  const { currentSong, isPlaying, play, resumeSession } = usePlayer();
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<PlaybackSession[]>([]);
+  const [localPosition] = useState(() => loadStoredPlayback()?.position ?? 0);
+  // Checked once for the page load, and again if someone signs in afterwards
+  const checkedRef = useRef<string | null | undefined>(undefined);
+  const offerLocalRef = useRef(!!currentSong);
+
+  useEffect(() => {
+    if (loading) return;
+    const userId = user?.id ?? null;
+    if (checkedRef.current === userId) return;
+    const firstCheck = checkedRef.current === undefined;
+    checkedRef.current = userId;
+
+    const loadSessions = async () => {
+      if (!user) {
+        if (firstCheck && offerLocalRef.current) setOpen(true);
+        return;
+      }
+
+      const since = new Date(Date.now() - MAX_SESSION_AGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const { data, error } = await supabase
+        .from("playback_sessions")
+        .select("*")
+        .eq("user_id", user.id)
+        .neq("device_id", getDeviceId())
+        .gte("updated_at", since)
+        .order("updated_at", { ascending: false })
+        .limit(5);
+
+      if (error) {
+        console.error("Error loading playback sessions:", error);
+      }
+      const remote = (data || []).map(fromSessionRow).filter((session) => session.queue.length > 0);
+      setSessions(remote);
+      if (remote.length > 0 || (firstCheck && offerLocalRef.current)) setOpen(true);
+    };
+
+    loadSessions();
+  }, [user, loading]);
+
+  // Starting playback some other way answers the question
+  useEffect(() => {
+    if (isPlaying) setOpen(false);
+  }, [isPlaying]);
+
+  const resumeHere = () => {
+    play();
+    setOpen(false);
+  };
+
+  const resumeFrom = (session: PlaybackSession) => {
+    resumeSession(session);
+    setOpen(false);
+  };
+
+  const isMobileDevice = (name: string) => /Android|iOS/.test(name);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Resume listening?</DialogTitle>
+          <DialogDescription>Pick up where you left off.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {offerLocalRef.current && currentSong && (
+            <div className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{currentSong.title}</p>
+                <p className="text-xs text-muted-foreground">This device · {formatTime(localPosition)}</p>
+              </div>
+              <Button size="sm" onClick={resumeHere}>Resume</Button>
+            </div>
+          )}
+
+          {sessions.map((session) => {
+            const song = session.queue[session.currentIndex];
+            const DeviceIcon = isMobileDevice(session.deviceName) ? Smartphone : Laptop;
+            return (
+              <div key={session.deviceId} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                <div className="flex items-center gap-3 min-w-0">
+                  <DeviceIcon className="h-4 w-4 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{song?.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {session.deviceName} · {formatTime(session.position)} ·{" "}
+                      {formatDistanceToNow(new Date(session.updatedAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => resumeFrom(session)}>
+                  Resume on this device
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => setOpen(false)}>
+            Not now
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
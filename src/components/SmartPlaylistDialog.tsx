@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Plus, X } from "lucide-react";
+import { Playlist } from "@/lib/playlists";
+import {
+  DEFAULT_SMART_RULES,
+  defaultRuleFor,
+  evaluateRules,
+  operatorLabels,
+  SMART_MAX_LIMIT,
+  SmartContext,
+  SmartField,
+  smartFields,
+  SmartOperator,
+  SmartRule,
+  SmartRules,
+  SmartSort,
+  sortLabels,
+} from "@/lib/smartPlaylists";
+
+interface SmartPlaylistDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The smart playlist being edited, or undefined to create one
+  playlist?: Playlist;
+  onSaved?: (playlist: Playlist) => void;
+}
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+const PREVIEW_SIZE = 20;
+
+export const SmartPlaylistDialog = ({ open, onOpenChange, playlist, onSaved }: SmartPlaylistDialogProps) => {
+  const { createPlaylist, updatePlaylist, loadSmartContext } = usePlaylists();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [isPublic, setIsPublic] = useState(false);
+  const [rules, setRules] = useState<SmartRules>(DEFAULT_SMART_RULES);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [context, setContext] = useState<SmartContext | null>(null);
+  const [saving, setSaving] = useState(false);
+  // Read when the dialog opens, so refreshes while editing don't reset the form
+  const playlistRef = useRef(playlist);
+  playlistRef.current = playlist;
+
+  useEffect(() => {
+    if (!open) return;
+    const current = playlistRef.current;
+    setName(current?.name || "");
+    setIsPublic(current?.is_public || false);
+    setRules(current?.rules || DEFAULT_SMART_RULES);
+    setContext(null);
+
+    const load = async () => {
+      try {
+        const [smartContext, categoriesResult] = await Promise.all([
+          loadSmartContext(),
+          supabase.from("categories").select("id, name").order("name"),
+        ]);
+        setContext(smartContext);
+        setCategories(categoriesResult.data || []);
+      } catch (error) {
+        console.error("Error loading smart playlist preview:", error);
+        toast({ title: "Error loading preview", description: error.message, variant: "destructive" });
+      }
+    };
+
+    load();
+  }, [open, loadSmartContext, toast]);
+
+  const preview = useMemo(() => (context ? evaluateRules(rules, context) : null), [rules, context]);
+
+  const updateRule = (index: number, changes: Partial<SmartRule>) => {
+    setRules((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const changeField = (index: number, field: SmartField) => {
+    setRules((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule, i) => (i === index ? defaultRuleFor(field) : rule)),
+    }));
+  };
+
+  const removeRule = (index: number) => {
+    setRules((prev) => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }));
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+
+    setSaving(true);
+    const details = { name: name.trim(), is_public: isPublic, rules };
+    if (playlist) {
+      await updatePlaylist(playlist.id, details);
+      onSaved?.(playlist);
+    } else {
+      const created = await createPlaylist({ ...details, description: null });
+      if (created) onSaved?.(created);
+    }
+    setSaving(false);
+    onOpenChange(false);
+  };
+
+  const renderValue = (rule: SmartRule, index: number) => {
+    const { input } = smartFields[rule.field];
+    if (input === "none") return null;
+
+    if (input === "category") {
+      return (
+        <Select value={(rule.value as string) || ""} onValueChange={(value) => updateRule(index, { value })}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categories.map((category) => (
+              <SelectItem key={category.id} value={category.id}>
+                {category.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (input === "text") {
+      return (
+        <Input
+          className="flex-1"
+          value={(rule.value as string) ?? ""}
+          onChange={(e) => updateRule(index, { value: e.target.value })}
+        />
+      );
+    }
+
+    return (
+      <div className="flex flex-1 items-center gap-1">
+        <Input
+          type="number"
+          min={0}
+          value={rule.value ?? 0}
+          onChange={(e) => updateRule(index, { value: Number(e.target.value) })}
+        />
+        {input === "days" && <span className="text-sm text-muted-foreground">days</span>}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{playlist ? "Edit smart playlist" : "New smart playlist"}</DialogTitle>
+          <DialogDescription>Songs are picked by these rules and kept up to date automatically.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="smart-name">Name</Label>
+              <Input
+                id="smart-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Playlist name"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="smart-public" checked={isPublic} onCheckedChange={setIsPublic} />
+              <Label htmlFor="smart-public">Public</Label>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <span>Match</span>
+            <Select
+              value={rules.match}
+              onValueChange={(match: SmartRules["match"]) => setRules((prev) => ({ ...prev, match }))}
+            >
+              <SelectTrigger className="w-24">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">all</SelectItem>
+                <SelectItem value="any">any</SelectItem>
+              </SelectContent>
+            </Select>
+            <span>of these rules</span>
+          </div>
+
+          <div className="space-y-2">
+            {rules.rules.map((rule, index) => (
+              <div key={index} className="flex flex-wrap sm:flex-nowrap items-center gap-2">
+                <Select value={rule.field} onValueChange={(field: SmartField) => changeField(index, field)}>
+                  <SelectTrigger className="w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(smartFields) as SmartField[]).map((field) => (
+                      <SelectItem key={field} value={field}>
+                        {smartFields[field].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={rule.operator}
+                  onValueChange={(operator: SmartOperator) => updateRule(index, { operator })}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {smartFields[rule.field].operators.map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {operatorLabels[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderValue(rule, index)}
+                <Button variant="ghost" size="icon" className="shrink-0" onClick={() => removeRule(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRules((prev) => ({ ...prev, rules: [...prev.rules, defaultRuleFor("category")] }))}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add rule
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Limit to</span>
+            <Input
+              type="number"
+              min={1}
+              max={SMART_MAX_LIMIT}
+              className="w-24"
+              value={rules.limit ?? ""}
+              placeholder="No limit"
+              onChange={(e) => {
+                const limit = Number(e.target.value);
+                setRules((prev) => ({ ...prev, limit: limit > 0 ? Math.min(limit, SMART_MAX_LIMIT) : null }));
+              }}
+            />
+            <span>songs, sorted by</span>
+            <Select value={rules.sort} onValueChange={(sort: SmartSort) => setRules((prev) => ({ ...prev, sort }))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(sortLabels) as SmartSort[]).map((sort) => (
+                  <SelectItem key={sort} value={sort}>
+                    {sortLabels[sort]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg p-3">
+            <p className="text-sm font-medium mb-2">
+              {preview ? `Preview: ${preview.length} songs` : "Loading preview..."}
+            </p>
+            {preview && preview.length > 0 && (
+              <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+                {preview.slice(0, PREVIEW_SIZE).map((song) => (
+                  <p key={song.id} className="truncate">
+                    {song.title}
+                    {song.artist && <span className="text-muted-foreground"> · {song.artist}</span>}
+                  </p>
+                ))}
+                {preview.length > PREVIEW_SIZE && (
+                  <p className="text-muted-foreground">and {preview.length - PREVIEW_SIZE} more</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={!name.trim() || saving}>
+            {playlist ? "Save" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useLikes } from "@/hooks/useLikes";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useParty } from "@/hooks/useParty";
+import { useShareCard } from "@/hooks/useShareCard";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { PlaylistDialog } from "@/components/PlaylistDialog";
+import { ArtworkDialog } from "@/components/ArtworkDialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Disc,
+  Heart,
+  Image,
+  ListEnd,
+  ListMinus,
+  ListMusic,
+  ListPlus,
+  MoreVertical,
+  PartyPopper,
+  Play,
+  Plus,
+  Share2,
+  User,
+} from "lucide-react";
+import { isLibrarySong, Song } from "@/lib/player";
+import { generateArtwork } from "@/lib/artwork";
+
+interface SongMenuProps {
+  song: Song;
+  // Set when the row belongs to one of the user's playlists
+  playlistId?: string;
+}
+
+export const SongMenu = ({ song, playlistId }: SongMenuProps) => {
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { isLiked, toggleLike } = useLikes();
+  const { playlists, createPlaylist, addToPlaylist, removeFromPlaylist } = usePlaylists();
+  const { role: partyRole, suggestSong } = useParty();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const { shareSong } = useShareCard();
+  const [creatingPlaylist, setCreatingPlaylist] = useState(false);
+  const [editingArtwork, setEditingArtwork] = useState(false);
+  const liked = isLiked(song.id);
+  // Smart playlists pick their own songs
+  const editablePlaylists = playlists.filter((playlist) => !playlist.rules);
+
+  // Credits aren't loaded with song lists, so the artist is looked up on demand
+  const goToArtist = async () => {
+    const { data, error } = await supabase
+      .from("song_credits")
+      .select("artist_id")
+      .eq("song_id", song.id)
+      .eq("role", "primary")
+      .order("position")
+      .limit(1)
+      .maybeSingle();
+    if (error) {
+      console.error("Error loading song credits:", error);
+    }
+    if (data) {
+      navigate(`/artist/${data.artist_id}`);
+    } else {
+      toast({ title: "No artist", description: `${song.title} isn't credited to an artist yet` });
+    }
+  };
+
+  const saveArtwork = async (artworkUrl: string | null) => {
+    const { error } = await supabase.from("songs").update({ artwork_url: artworkUrl }).eq("id", song.id);
+    if (error) {
+      toast({ title: "Error saving artwork", description: error.message, variant: "destructive" });
+      return;
+    }
+    player.updateSong(song.id, { artwork_url: artworkUrl });
+    toast({ title: "Artwork updated", description: song.title });
+  };
+
+  // Menu and dialog clicks shouldn't reach the song row underneath
+  return (
+    <div className="shrink-0" onClick={(e) => e.stopPropagation()}>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <MoreVertical className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+          <DropdownMenuItem onSelect={() => player.playNow(song)}>
+            <Play className="h-4 w-4 mr-2" />
+            Play now
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              player.playNext([song]);
+              toast({ title: "Playing next", description: song.title });
+            }}
+          >
+            <ListPlus className="h-4 w-4 mr-2" />
+            Play next
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={() => {
+              player.addToQueue([song]);
+              toast({ title: "Added to queue", description: song.title });
+            }}
+          >
+            <ListEnd className="h-4 w-4 mr-2" />
+            Add to queue
+          </DropdownMenuItem>
+          {partyRole === "guest" && (
+            <DropdownMenuItem onSelect={() => suggestSong(song)}>
+              <PartyPopper className="h-4 w-4 mr-2" />
+              Suggest to party
+            </DropdownMenuItem>
+          )}
+          {isLibrarySong(song) && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={goToArtist}>
+                <User className="h-4 w-4 mr-2" />
+                Go to artist
+              </DropdownMenuItem>
+              {song.album_id && (
+                <DropdownMenuItem onSelect={() => navigate(`/album/${song.album_id}`)}>
+                  <Disc className="h-4 w-4 mr-2" />
+                  Go to album
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuItem onSelect={() => shareSong(song)}>
+                <Share2 className="h-4 w-4 mr-2" />
+                Share
+              </DropdownMenuItem>
+              {user && song.uploaded_by === user.id && (
+                <DropdownMenuItem onSelect={() => setEditingArtwork(true)}>
+                  <Image className="h-4 w-4 mr-2" />
+                  Change artwork
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => toggleLike(song)}>
+                <Heart className={`h-4 w-4 mr-2 ${liked ? "fill-current" : ""}`} />
+                {liked ? "Remove from Liked Songs" : "Save to Liked Songs"}
+              </DropdownMenuItem>
+              {user && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <ListMusic className="h-4 w-4 mr-2" />
+                    Add to playlist
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent className="max-h-64 overflow-y-auto">
+                    <DropdownMenuItem onSelect={() => setCreatingPlaylist(true)}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      New playlist…
+                    </DropdownMenuItem>
+                    {editablePlaylists.length > 0 && <DropdownMenuSeparator />}
+                    {editablePlaylists.map((playlist) => (
+                      <DropdownMenuItem key={playlist.id} onSelect={() => addToPlaylist(playlist.id, [song])}>
+                        <span className="truncate">{playlist.name}</span>
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {playlistId && (
+                <DropdownMenuItem onSelect={() => removeFromPlaylist(playlistId, song.id)}>
+                  <ListMinus className="h-4 w-4 mr-2" />
+                  Remove from playlist
+                </DropdownMenuItem>
+              )}
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <PlaylistDialog
+        open={creatingPlaylist}
+        onOpenChange={setCreatingPlaylist}
+        onSave={(details) => createPlaylist(details, [song])}
+      />
+      {/* Mounted only while open, so list rows don't each generate fallback art */}
+      {editingArtwork && (
+        <ArtworkDialog
+          open
+          onOpenChange={setEditingArtwork}
+          name={song.title}
+          artworkUrl={song.artwork_url}
+          fallbackUrl={generateArtwork(song.title, song.artist)}
+          audioUrl={song.url}
+          onSave={saveArtwork}
+        />
+      )}
+    </div>
+  );
+};
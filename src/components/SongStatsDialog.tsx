@@ -0,0 +1,102 @@
+import { useEffect, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { formatPercent } from "@/lib/player";
+
+export interface SongStats {
+  plays: number;
+  listeners: number;
+  // Average share of the song heard per play, 0–1, or null when durations are unknown
+  listenThrough: number | null;
+  likes: number;
+}
+
+interface SongStatsDialogProps {
+  song: { id: string; title: string; artist?: string } | null;
+  stats: SongStats | undefined;
+  onOpenChange: (open: boolean) => void;
+}
+
+const TREND_DAYS = 30;
+
+const chartConfig = {
+  plays: {
+    label: "Plays",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+export const SongStatsDialog = ({ song, stats, onOpenChange }: SongStatsDialogProps) => {
+  const [trend, setTrend] = useState<{ day: string; plays: number }[]>([]);
+
+  useEffect(() => {
+    if (!song) return;
+
+    const loadTrend = async () => {
+      const { data, error } = await supabase.rpc("get_song_play_trend", {
+        _song_id: song.id,
+        _days: TREND_DAYS,
+      });
+
+      if (error) {
+        console.error("Error loading play trend:", error);
+        setTrend([]);
+      } else {
+        setTrend(data || []);
+      }
+    };
+
+    loadTrend();
+  }, [song]);
+
+  const summary = [
+    { label: "Total plays", value: stats?.plays ?? 0 },
+    { label: "Unique listeners", value: stats?.listeners ?? 0 },
+    { label: "Likes", value: stats?.likes ?? 0 },
+    { label: "Avg. listen-through", value: formatPercent(stats?.listenThrough ?? null) },
+  ];
+
+  return (
+    <Dialog open={!!song} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{song?.title}</DialogTitle>
+          <DialogDescription>{song?.artist || "Unknown Artist"}</DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+          {summary.map((item) => (
+            <div key={item.label} className="p-4 border rounded-lg text-center">
+              <p className="text-2xl font-bold">{item.value}</p>
+              <p className="text-xs text-muted-foreground">{item.label}</p>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <p className="text-sm font-medium mb-2">Plays in the last {TREND_DAYS} days</p>
+          <ChartContainer config={chartConfig} className="h-48 w-full">
+            <BarChart data={trend}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="day"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={24}
+                tickFormatter={(day) => format(parseISO(day), "MMM d")}
+              />
+              <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(day) => format(parseISO(day), "PP")} />}
+              />
+              <Bar dataKey="plays" fill="var(--color-plays)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
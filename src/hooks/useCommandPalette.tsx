@@ -0,0 +1,46 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { CommandPalette } from "@/components/CommandPalette";
+
+interface CommandPaletteContextType {
+  openCommandPalette: () => void;
+}
+
+const CommandPaletteContext = createContext<CommandPaletteContextType | undefined>(undefined);
+
+export const useCommandPalette = () => {
+  const context = useContext(CommandPaletteContext);
+  if (context === undefined) {
+    throw new Error("useCommandPalette must be used within a CommandPaletteProvider");
+  }
+  return context;
+};
+
+// Needs to sit inside the router, since commands navigate between pages
+export const CommandPaletteProvider = ({ children }: { children: React.ReactNode }) => {
+  const [open, setOpen] = useState(false);
+
+  const openCommandPalette = useCallback(() => setOpen(true), []);
+
+  // Ctrl/Cmd+K works everywhere, even while typing, like in most apps
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() !== "k" || !(event.ctrlKey || event.metaKey) || event.altKey) return;
+      event.preventDefault();
+      setOpen((prev) => !prev);
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const value = {
+    openCommandPalette,
+  };
+
+  return (
+    <CommandPaletteContext.Provider value={value}>
+      {children}
+      <CommandPalette open={open} onOpenChange={setOpen} />
+    </CommandPaletteContext.Provider>
+  );
+};
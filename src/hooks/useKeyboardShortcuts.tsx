@@ -0,0 +1,143 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { usePlayer } from "@/hooks/usePlayer";
+import { usePreferences } from "@/hooks/usePreferences";
+import { KeyboardShortcutsDialog } from "@/components/KeyboardShortcutsDialog";
+import {
+  eventToKey,
+  isTypingTarget,
+  Keybindings,
+  resolveKeybindings,
+  SEEK_STEP,
+  SHORTCUT_ACTIONS,
+  ShortcutAction,
+  VOLUME_STEP,
+} from "@/lib/shortcuts";
+
+type ShortcutHandler = () => void;
+
+interface KeyboardShortcutsContextType {
+  keybindings: Keybindings;
+  openShortcuts: () => void;
+  registerShortcut: (action: ShortcutAction, handler: ShortcutHandler) => () => void;
+}
+
+const KeyboardShortcutsContext = createContext<KeyboardShortcutsContextType | undefined>(undefined);
+
+export const useKeyboardShortcuts = () => {
+  const context = useContext(KeyboardShortcutsContext);
+  if (context === undefined) {
+    throw new Error("useKeyboardShortcuts must be used within a KeyboardShortcutsProvider");
+  }
+  return context;
+};
+
+// Lets a mounted component handle an action, e.g. the page that owns the search box
+export const useShortcut = (action: ShortcutAction, handler: ShortcutHandler) => {
+  const { registerShortcut } = useKeyboardShortcuts();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => registerShortcut(action, () => handlerRef.current()), [action, registerShortcut]);
+};
+
+export const KeyboardShortcutsProvider = ({ children }: { children: React.ReactNode }) => {
+  const player = usePlayer();
+  const { preferences } = usePreferences();
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const keybindings = resolveKeybindings(preferences.keybindings);
+
+  // Handlers registered by components; the most recently mounted one wins
+  const registeredRef = useRef<Map<ShortcutAction, ShortcutHandler[]>>(new Map());
+
+  const registerShortcut = useCallback((action: ShortcutAction, handler: ShortcutHandler) => {
+    const handlers = registeredRef.current;
+    handlers.set(action, [...(handlers.get(action) || []), handler]);
+    return () => {
+      handlers.set(action, (handlers.get(action) || []).filter((h) => h !== handler));
+    };
+  }, []);
+
+  const openShortcuts = useCallback(() => setShowShortcuts(true), []);
+
+  // The keydown listener is registered once and reads the latest values through a ref
+  const latestRef = useRef({ player, keybindings });
+  latestRef.current = { player, keybindings };
+
+  useEffect(() => {
+    const runPlayerAction = (action: ShortcutAction) => {
+      const { player } = latestRef.current;
+      switch (action) {
+        case "togglePlay":
+          player.togglePlay();
+          return true;
+        case "seekForward":
+        case "seekBackward": {
+          if (!player.currentSong) return false;
+          const offset = action === "seekForward" ? SEEK_STEP : -SEEK_STEP;
+          const max = player.duration > 0 ? player.duration : player.currentTime;
+          player.seekTo(Math.min(Math.max(player.currentTime + offset, 0), max));
+          return true;
+        }
+        case "volumeUp":
+          player.setVolume(player.volume + VOLUME_STEP);
+          return true;
+        case "volumeDown":
+          player.setVolume(player.volume - VOLUME_STEP);
+          return true;
+        case "nextSong":
+          player.nextSong();
+          return true;
+        case "prevSong":
+          player.prevSong();
+          return true;
+        case "toggleShuffle":
+          player.toggleShuffle();
+          return true;
+        case "cycleRepeat":
+          player.cycleRepeat();
+          return true;
+        case "showShortcuts":
+          setShowShortcuts(true);
+          return true;
+        default:
+          return false;
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.ctrlKey || event.metaKey || event.altKey) return;
+      if (isTypingTarget(event.target)) return;
+
+      const key = eventToKey(event);
+      // Space on a focused button already clicks it
+      if (key === "Space" && event.target instanceof HTMLButtonElement) return;
+
+      const action = SHORTCUT_ACTIONS.find((a) => latestRef.current.keybindings[a] === key);
+      if (!action) return;
+
+      const handlers = registeredRef.current.get(action) || [];
+      if (handlers.length > 0) {
+        handlers[handlers.length - 1]();
+      } else if (!runPlayerAction(action)) {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const value = {
+    keybindings,
+    openShortcuts,
+    registerShortcut,
+  };
+
+  return (
+    <KeyboardShortcutsContext.Provider value={value}>
+      {children}
+      <KeyboardShortcutsDialog open={showShortcuts} onOpenChange={setShowShortcuts} />
+    </KeyboardShortcutsContext.Provider>
+  );
+};
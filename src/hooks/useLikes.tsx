@@ -0,0 +1,100 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useShortcut } from "@/hooks/useKeyboardShortcuts";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useToast } from "@/hooks/use-toast";
+import { isLibrarySong, Song } from "@/lib/player";
+
+interface LikesContextType {
+  // Most recently liked first
+  likedSongs: Song[];
+  isLiked: (songId: string) => boolean;
+  toggleLike: (song: Song) => Promise<void>;
+}
+
+const LikesContext = createContext<LikesContextType | undefined>(undefined);
+
+export const useLikes = () => {
+  const context = useContext(LikesContext);
+  if (context === undefined) {
+    throw new Error("useLikes must be used within a LikesProvider");
+  }
+  return context;
+};
+
+export const LikesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { currentSong } = usePlayer();
+  const { toast } = useToast();
+  const [likedSongs, setLikedSongs] = useState<Song[]>([]);
+  const likedRef = useRef(likedSongs);
+  likedRef.current = likedSongs;
+
+  useEffect(() => {
+    if (!user) {
+      setLikedSongs([]);
+      return;
+    }
+
+    const loadLikes = async () => {
+      const { data, error } = await supabase
+        .from("song_likes")
+        .select("songs(*)")
+        .eq("user_id", user.id)
+        .order("created_at", { ascending: false });
+
+      if (error) {
+        console.error("Error loading liked songs:", error);
+      } else {
+        setLikedSongs((data || []).map((row) => row.songs as Song).filter(Boolean));
+      }
+    };
+
+    loadLikes();
+  }, [user]);
+
+  const isLiked = useCallback(
+    (songId: string) => likedSongs.some((song) => song.id === songId),
+    [likedSongs]
+  );
+
+  // Updates the list straight away and rolls back if the server disagrees
+  const toggleLike = useCallback(async (song: Song) => {
+    if (!user) {
+      toast({ title: "Sign In Required", description: "Please sign in to like songs", variant: "destructive" });
+      return;
+    }
+    if (!isLibrarySong(song)) {
+      toast({ title: "Can't like this song", description: "Only songs from the library can be liked", variant: "destructive" });
+      return;
+    }
+
+    const previous = likedRef.current;
+    const liked = previous.some((s) => s.id === song.id);
+    setLikedSongs(liked ? previous.filter((s) => s.id !== song.id) : [song, ...previous]);
+
+    const { error } = liked
+      ? await supabase.from("song_likes").delete().eq("user_id", user.id).eq("song_id", song.id)
+      : await supabase.from("song_likes").insert({ user_id: user.id, song_id: song.id });
+
+    if (error) {
+      setLikedSongs((current) =>
+        liked ? [song, ...current.filter((s) => s.id !== song.id)] : current.filter((s) => s.id !== song.id)
+      );
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  }, [user, toast]);
+
+  useShortcut("like", () => {
+    if (currentSong) toggleLike(currentSong);
+  });
+
+  const value = {
+    likedSongs,
+    isLiked,
+    toggleLike,
+  };
+
+  return <LikesContext.Provider value={value}>{children}</LikesContext.Provider>;
+};
@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePreferences } from "@/hooks/usePreferences";
+import { isLibrarySong } from "@/lib/player";
+import { QueueItem } from "@/lib/queue";
+
+// A song counts as played after this much listening, or when it finishes if it is shorter
+export const PLAY_THRESHOLD_SECONDS = 30;
+// Larger jumps between time updates are seeks, not listening
+const MAX_PROGRESS_STEP = 2;
+// Leaving this close to the end (e.g. during a crossfade) still counts as finishing the song
+const COMPLETION_MARGIN_SECONDS = 15;
+
+interface Listen {
+  item: QueueItem;
+  startedAt: string;
+  seconds: number;
+  lastTime: number;
+  duration: number;
+  completed: boolean;
+  // Passed the play threshold
+  counted: boolean;
+  // Resolves to the history row id once the play has been recorded
+  row: Promise<string | null> | null;
+}
+
+// Follows the active deck's progress. Signed-in users' finished plays are
+// reported to the record_play RPC for play counts, and also get
+// listening_history rows unless they paused their history.
+export const useListeningHistory = () => {
+  const { user } = useAuth();
+  const { preferences } = usePreferences();
+  const listenRef = useRef<Listen | null>(null);
+  const userIdRef = useRef<string | null>(null);
+  userIdRef.current = user && !preferences.history_paused ? user.id : null;
+  // Guests' plays aren't counted; the server can't tell them apart from scripts
+  const signedInRef = useRef(false);
+  signedInRef.current = !!user;
+
+  const record = useCallback((listen: Listen) => {
+    const userId = userIdRef.current;
+    if (!userId || !isLibrarySong(listen.item)) {
+      listen.row = Promise.resolve(null);
+      return;
+    }
+
+    listen.row = (async () => {
+      const { data, error } = await supabase
+        .from("listening_history")
+        .insert({
+          user_id: userId,
+          song_id: listen.item.id,
+          started_at: listen.startedAt,
+          seconds_listened: Math.round(listen.seconds),
+          completed: listen.completed,
+          source: listen.item.source ?? null,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        console.error("Error recording listening history:", error);
+        return null;
+      }
+      return data.id;
+    })();
+  }, []);
+
+  // Counting happens server side, which decides whether the play is genuine
+  const countPlay = useCallback(async (listen: Listen) => {
+    if (!signedInRef.current || !isLibrarySong(listen.item)) return;
+
+    const { error } = await supabase.rpc("record_play", {
+      _song_id: listen.item.id,
+      _seconds_listened: Math.round(listen.seconds),
+    });
+
+    if (error) {
+      console.error("Error recording play:", error);
+    }
+  }, []);
+
+  const finish = useCallback(() => {
+    const listen = listenRef.current;
+    listenRef.current = null;
+    if (!listen?.counted) return;
+
+    if (listen.duration > 0 && listen.duration - listen.lastTime <= COMPLETION_MARGIN_SECONDS) {
+      listen.completed = true;
+    }
+    countPlay(listen);
+    if (!listen.row) return;
+
+    listen.row.then(async (id) => {
+      if (!id) return;
+      const { error } = await supabase
+        .from("listening_history")
+        .update({ seconds_listened: Math.round(listen.seconds), completed: listen.completed })
+        .eq("id", id);
+
+      if (error) {
+        console.error("Error updating listening history:", error);
+      }
+    });
+  }, [countPlay]);
+
+  const trackProgress = useCallback((item: QueueItem | null, currentTime: number, duration: number) => {
+    const listen = listenRef.current;
+    if (!item || listen?.item.queueId !== item.queueId) {
+      finish();
+      if (item) {
+        listenRef.current = {
+          item,
+          startedAt: new Date().toISOString(),
+          seconds: 0,
+          lastTime: currentTime,
+          duration,
+          completed: false,
+          counted: false,
+          row: null,
+        };
+      }
+      return;
+    }
+
+    const step = currentTime - listen.lastTime;
+    if (step > 0 && step <= MAX_PROGRESS_STEP) listen.seconds += step;
+    listen.lastTime = currentTime;
+    listen.duration = duration;
+
+    if (!listen.counted && listen.seconds >= PLAY_THRESHOLD_SECONDS) {
+      listen.counted = true;
+      record(listen);
+    }
+  }, [finish, record]);
+
+  const trackEnded = useCallback((item: QueueItem) => {
+    const listen = listenRef.current;
+    if (!listen || listen.item.queueId !== item.queueId) return;
+
+    // Short songs count once most of them has been heard
+    listen.completed = true;
+    const threshold = listen.duration > 0 ? Math.min(PLAY_THRESHOLD_SECONDS, listen.duration / 2) : PLAY_THRESHOLD_SECONDS;
+    if (!listen.counted && listen.seconds >= threshold) {
+      listen.counted = true;
+      record(listen);
+    }
+    finish();
+  }, [finish, record]);
+
+  useEffect(() => {
+    window.addEventListener("pagehide", finish);
+    return () => window.removeEventListener("pagehide", finish);
+  }, [finish]);
+
+  return { trackProgress, trackEnded };
+};
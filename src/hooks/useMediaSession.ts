@@ -0,0 +1,111 @@
+import { useEffect, useRef } from "react";
+import { Song } from "@/lib/player";
+import { songArtwork } from "@/lib/artwork";
+
+const DEFAULT_SEEK_OFFSET = 10;
+
+interface MediaSessionOptions {
+  song: Song | null;
+  isPlaying: boolean;
+  currentTime: number;
+  duration: number;
+  play: () => void;
+  pause: () => void;
+  nextSong: () => void;
+  prevSong: () => void;
+  seekTo: (time: number) => void;
+}
+
+// Publishes the current song to the OS (lock screen, notification shade,
+// hardware media keys) and routes its controls back to the player
+export const useMediaSession = ({
+  song,
+  isPlaying,
+  currentTime,
+  duration,
+  ...controls
+}: MediaSessionOptions) => {
+  const supported = typeof navigator !== "undefined" && "mediaSession" in navigator;
+
+  // Action handlers are registered once and read the latest values through a ref
+  const latestRef = useRef({ currentTime, duration, ...controls });
+  latestRef.current = { currentTime, duration, ...controls };
+
+  useEffect(() => {
+    if (!supported) return;
+
+    const seekBy = (offset: number) => {
+      const { currentTime, duration, seekTo } = latestRef.current;
+      const max = duration > 0 ? duration : Infinity;
+      seekTo(Math.min(Math.max(currentTime + offset, 0), max));
+    };
+
+    const handlers: [MediaSessionAction, MediaSessionActionHandler][] = [
+      ["play", () => latestRef.current.play()],
+      ["pause", () => latestRef.current.pause()],
+      ["stop", () => latestRef.current.pause()],
+      ["nexttrack", () => latestRef.current.nextSong()],
+      ["previoustrack", () => latestRef.current.prevSong()],
+      ["seekto", (details) => {
+        if (details.seekTime !== undefined) latestRef.current.seekTo(details.seekTime);
+      }],
+      ["seekforward", (details) => seekBy(details.seekOffset || DEFAULT_SEEK_OFFSET)],
+      ["seekbackward", (details) => seekBy(-(details.seekOffset || DEFAULT_SEEK_OFFSET))],
+    ];
+
+    handlers.forEach(([action, handler]) => {
+      try {
+        navigator.mediaSession.setActionHandler(action, handler);
+      } catch (error) {
+        // Older browsers throw for actions they don't know about
+        console.warn(`Media Session action "${action}" is not supported`);
+      }
+    });
+
+    return () => {
+      handlers.forEach(([action]) => {
+        try {
+          navigator.mediaSession.setActionHandler(action, null);
+        } catch (error) {
+          // Ignored, see above
+        }
+      });
+    };
+  }, [supported]);
+
+  useEffect(() => {
+    if (!supported) return;
+
+    navigator.mediaSession.metadata = song
+      ? new MediaMetadata({
+          title: song.title,
+          artist: song.artist || "Unknown Artist",
+          album: "MJ Player",
+          artwork: [{ src: songArtwork(song) }],
+        })
+      : null;
+  }, [supported, song]);
+
+  useEffect(() => {
+    if (!supported) return;
+    navigator.mediaSession.playbackState = song ? (isPlaying ? "playing" : "paused") : "none";
+  }, [supported, song, isPlaying]);
+
+  useEffect(() => {
+    if (!supported || !navigator.mediaSession.setPositionState) return;
+
+    try {
+      if (song && duration > 0 && isFinite(duration)) {
+        navigator.mediaSession.setPositionState({
+          duration,
+          position: Math.min(Math.max(currentTime, 0), duration),
+          playbackRate: 1,
+        });
+      } else {
+        navigator.mediaSession.setPositionState();
+      }
+    } catch (error) {
+      console.error("Error updating media position:", error);
+    }
+  }, [supported, song, currentTime, duration]);
+};
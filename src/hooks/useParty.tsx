@@ -0,0 +1,385 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { RealtimeChannel } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useToast } from "@/hooks/use-toast";
+import { isLibrarySong, Song } from "@/lib/player";
+import {
+  estimateClockOffset,
+  expectedPosition,
+  PARTY_CLOCK_SYNC_INTERVAL,
+  PARTY_DRIFT_TOLERANCE,
+  PARTY_HEARTBEAT_INTERVAL,
+  PartyParticipant,
+  PartyPlayback,
+  PartyRole,
+  PartySuggestion,
+  parseSuggestRequest,
+  toPartySong,
+} from "@/lib/party";
+
+type PartyRoom = Tables<"party_rooms">;
+
+interface PartyContextType {
+  room: PartyRoom | null;
+  // null when not in a party or once it has ended
+  role: PartyRole | null;
+  participants: PartyParticipant[];
+  suggestions: PartySuggestion[];
+  startParty: () => Promise<string | null>;
+  joinParty: (roomId: string) => Promise<boolean>;
+  leaveParty: () => Promise<void>;
+  endParty: () => Promise<void>;
+  suggestSong: (song: Song) => void;
+  approveSuggestion: (id: string) => void;
+  dismissSuggestion: (id: string) => void;
+  handOff: (userId: string) => Promise<void>;
+}
+
+const PartyContext = createContext<PartyContextType | undefined>(undefined);
+
+export const useParty = () => {
+  const context = useContext(PartyContext);
+  if (context === undefined) {
+    throw new Error("useParty must be used within a PartyProvider");
+  }
+  return context;
+};
+
+export const PartyProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { toast } = useToast();
+  const [room, setRoom] = useState<PartyRoom | null>(null);
+  const [participants, setParticipants] = useState<PartyParticipant[]>([]);
+  const [suggestions, setSuggestions] = useState<PartySuggestion[]>([]);
+  const [clientId] = useState(() => crypto.randomUUID());
+
+  const role: PartyRole | null = room && !room.ended_at ? (room.host_id === user?.id ? "host" : "guest") : null;
+  const name = user?.user_metadata?.full_name || user?.email?.split("@")[0] || "Guest";
+
+  // Channel handlers are registered once per room, so they read the latest values through refs.
+  // Everyone sends on the room channel; only the host may send on the host channel.
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const hostChannelRef = useRef<RealtimeChannel | null>(null);
+  const roleRef = useRef(role);
+  roleRef.current = role;
+  const playerRef = useRef(player);
+  playerRef.current = player;
+  const suggestionsRef = useRef(suggestions);
+  suggestionsRef.current = suggestions;
+  // Guests: the host's latest playback message and host clock minus local clock
+  const hostPlaybackRef = useRef<PartyPlayback | null>(null);
+  const clockOffsetRef = useRef(0);
+  // Host: the last playback message sent, to spot seeks
+  const lastSentRef = useRef<PartyPlayback | null>(null);
+
+  const broadcast = useCallback((event: string, payload: Record<string, unknown>) => {
+    channelRef.current?.send({ type: "broadcast", event, payload });
+  }, []);
+
+  const broadcastAsHost = useCallback((event: string, payload: Record<string, unknown>) => {
+    hostChannelRef.current?.send({ type: "broadcast", event, payload });
+  }, []);
+
+  const sendPlayback = useCallback(() => {
+    const { currentSong, isPlaying, currentTime } = playerRef.current;
+    const playback: PartyPlayback = {
+      song: currentSong ? toPartySong(currentSong) : null,
+      playing: isPlaying,
+      position: currentTime,
+      sentAt: Date.now(),
+    };
+    lastSentRef.current = playback;
+    broadcastAsHost("playback", { ...playback });
+  }, [broadcastAsHost]);
+
+  const publishSuggestions = useCallback((next: PartySuggestion[]) => {
+    suggestionsRef.current = next;
+    setSuggestions(next);
+    broadcastAsHost("suggestions", { suggestions: next });
+  }, [broadcastAsHost]);
+
+  // Host: guests only send a song id; the song itself comes from the library,
+  // and only public songs or the host's own are listed
+  const receiveSuggestion = useCallback(async (payload: unknown) => {
+    const request = parseSuggestRequest(payload);
+    if (!request || suggestionsRef.current.some((s) => s.id === request.id)) return;
+
+    const { data: song, error } = await supabase.from("songs").select("*").eq("id", request.songId).maybeSingle();
+    if (error) {
+      console.error("Error loading suggested song:", error);
+      return;
+    }
+    if (!song || !(song.is_public || song.uploaded_by === user?.id) || roleRef.current !== "host") return;
+    if (suggestionsRef.current.some((s) => s.id === request.id)) return;
+
+    publishSuggestions([
+      ...suggestionsRef.current,
+      { id: request.id, song: toPartySong(song), suggestedBy: request.suggestedBy },
+    ]);
+  }, [user, publishSuggestions]);
+
+  // Guests: load, start, stop or seek so the local player matches the host
+  const followHost = useCallback(() => {
+    const playback = hostPlaybackRef.current;
+    const current = playerRef.current;
+    if (!playback) return;
+
+    if (!playback.song) {
+      if (current.isPlaying) current.pause();
+      return;
+    }
+    if (current.currentSong?.id !== playback.song.id) {
+      current.loadQueue([playback.song], 0, playback.playing, "party");
+      return;
+    }
+    if (current.status === "loading" || current.status === "buffering") return;
+
+    if (playback.playing && !current.isPlaying) current.play();
+    if (!playback.playing && current.isPlaying) current.pause();
+
+    const expected = expectedPosition(playback, clockOffsetRef.current);
+    const withinSong = !current.duration || expected < current.duration;
+    if (withinSong && Math.abs(current.currentTime - expected) > PARTY_DRIFT_TOLERANCE) {
+      current.seekTo(expected);
+    }
+  }, []);
+
+  const roomId = room?.id;
+  const roomEnded = !!room?.ended_at;
+  const hostId = room?.host_id;
+
+  // Host messages. The channel is private and the database only lets the
+  // current host send on it, so it is rejoined whenever the host changes.
+  useEffect(() => {
+    if (!roomId || roomEnded) return;
+
+    const channel = supabase.channel(`party-host-${roomId}`, {
+      config: { private: true, broadcast: { self: false } },
+    });
+    hostChannelRef.current = channel;
+
+    channel
+      .on("broadcast", { event: "playback" }, ({ payload }) => {
+        if (roleRef.current !== "guest") return;
+        hostPlaybackRef.current = payload as PartyPlayback;
+        followHost();
+      })
+      .on("broadcast", { event: "pong" }, ({ payload }) => {
+        if (payload.to !== clientId) return;
+        clockOffsetRef.current = estimateClockOffset(payload.sentAt, payload.hostTime, Date.now());
+      })
+      .on("broadcast", { event: "suggestions" }, ({ payload }) => {
+        setSuggestions(payload.suggestions || []);
+      })
+      .subscribe((status) => {
+        // Guests ask for the host's state once they can hear the answer
+        if (status !== "SUBSCRIBED" || roleRef.current !== "guest") return;
+        broadcast("ping", { from: clientId, sentAt: Date.now() });
+        broadcast("request_state", {});
+      });
+
+    return () => {
+      hostChannelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, roomEnded, hostId, clientId, broadcast, followHost]);
+
+  useEffect(() => {
+    if (!roomId || roomEnded) return;
+
+    const channel = supabase.channel(`party-${roomId}`, {
+      config: { broadcast: { self: false }, presence: { key: clientId } },
+    });
+    channelRef.current = channel;
+
+    const syncClock = () => {
+      if (roleRef.current === "guest") broadcast("ping", { from: clientId, sentAt: Date.now() });
+    };
+
+    channel
+      .on("broadcast", { event: "request_state" }, () => {
+        if (roleRef.current !== "host") return;
+        sendPlayback();
+        broadcastAsHost("suggestions", { suggestions: suggestionsRef.current });
+      })
+      .on("broadcast", { event: "ping" }, ({ payload }) => {
+        if (roleRef.current !== "host") return;
+        broadcastAsHost("pong", { to: payload.from, sentAt: payload.sentAt, hostTime: Date.now() });
+      })
+      .on("broadcast", { event: "suggest" }, ({ payload }) => {
+        if (roleRef.current !== "host") return;
+        receiveSuggestion(payload);
+      })
+      .on("presence", { event: "sync" }, () => {
+        const state = channel.presenceState<{ userId: string | null; name: string }>();
+        setParticipants(
+          Object.entries(state).map(([key, [meta]]) => ({ clientId: key, userId: meta?.userId ?? null, name: meta?.name }))
+        );
+      })
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "party_rooms", filter: `id=eq.${roomId}` },
+        ({ new: updated }) => setRoom(updated as PartyRoom)
+      )
+      .subscribe((status) => {
+        if (status !== "SUBSCRIBED") return;
+        channel.track({ userId: user?.id ?? null, name });
+      });
+
+    const clockInterval = setInterval(syncClock, PARTY_CLOCK_SYNC_INTERVAL);
+
+    return () => {
+      clearInterval(clockInterval);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, roomEnded, clientId, user, name, broadcast, broadcastAsHost, sendPlayback, receiveSuggestion]);
+
+  // Taking over as host (or handing off) starts from a clean slate
+  useEffect(() => {
+    hostPlaybackRef.current = null;
+    lastSentRef.current = null;
+  }, [role]);
+
+  // Host: announce song and play/pause changes straight away, and re-send as a heartbeat
+  const songKey = player.currentSong?.queueId;
+  useEffect(() => {
+    if (role !== "host") return;
+    sendPlayback();
+    const interval = setInterval(sendPlayback, PARTY_HEARTBEAT_INTERVAL);
+    return () => clearInterval(interval);
+  }, [role, songKey, player.isPlaying, sendPlayback]);
+
+  // Host: a position that jumps away from the last message means the host seeked
+  useEffect(() => {
+    const lastSent = lastSentRef.current;
+    if (role !== "host" || !lastSent) return;
+    if (Math.abs(player.currentTime - expectedPosition(lastSent, 0)) > PARTY_DRIFT_TOLERANCE) {
+      sendPlayback();
+    }
+  }, [role, player.currentTime, sendPlayback]);
+
+  // Guests: keep correcting between messages, e.g. once a new song finishes loading
+  useEffect(() => {
+    if (role !== "guest") return;
+    const interval = setInterval(followHost, 1000);
+    return () => clearInterval(interval);
+  }, [role, followHost]);
+
+  useEffect(() => {
+    if (roomEnded) {
+      toast({ title: "Party ended", description: "Playback is no longer synced" });
+    }
+  }, [roomEnded, toast]);
+
+  const startParty = useCallback(async () => {
+    if (!user) {
+      toast({ title: "Sign In Required", description: "Please sign in to start a party", variant: "destructive" });
+      return null;
+    }
+
+    const { data, error } = await supabase.from("party_rooms").insert({ host_id: user.id }).select().single();
+    if (error) {
+      toast({ title: "Couldn't start party", description: error.message, variant: "destructive" });
+      return null;
+    }
+    setSuggestions([]);
+    setRoom(data);
+    return data.id;
+  }, [user, toast]);
+
+  const joinParty = useCallback(async (id: string) => {
+    if (room?.id === id) return !room.ended_at;
+
+    const { data, error } = await supabase.from("party_rooms").select("*").eq("id", id).maybeSingle();
+    if (error || !data) {
+      toast({ title: "Party not found", description: error?.message, variant: "destructive" });
+      return false;
+    }
+    setSuggestions([]);
+    setRoom(data);
+    return !data.ended_at;
+  }, [room, toast]);
+
+  const endParty = useCallback(async () => {
+    if (!room || role !== "host") return;
+
+    const { data, error } = await supabase
+      .from("party_rooms")
+      .update({ ended_at: new Date().toISOString() })
+      .eq("id", room.id)
+      .select()
+      .single();
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRoom(data);
+  }, [room, role, toast]);
+
+  // Hosts who leave end the party for everyone
+  const leaveParty = useCallback(async () => {
+    if (role === "host") await endParty();
+    setRoom(null);
+    setParticipants([]);
+    setSuggestions([]);
+  }, [role, endParty]);
+
+  const suggestSong = useCallback((song: Song) => {
+    if (roleRef.current !== "guest") return;
+    if (!isLibrarySong(song)) {
+      toast({ title: "Can't suggest this song", description: "Only songs from the library can be suggested" });
+      return;
+    }
+    broadcast("suggest", { id: crypto.randomUUID(), songId: song.id, suggestedBy: name });
+    toast({ title: "Suggested to the host", description: song.title });
+  }, [broadcast, name, toast]);
+
+  const approveSuggestion = useCallback((id: string) => {
+    const suggestion = suggestionsRef.current.find((s) => s.id === id);
+    if (!suggestion) return;
+    playerRef.current.addToQueue([suggestion.song]);
+    publishSuggestions(suggestionsRef.current.filter((s) => s.id !== id));
+  }, [publishSuggestions]);
+
+  const dismissSuggestion = useCallback((id: string) => {
+    publishSuggestions(suggestionsRef.current.filter((s) => s.id !== id));
+  }, [publishSuggestions]);
+
+  const handOff = useCallback(async (userId: string) => {
+    if (!room || role !== "host") return;
+
+    const { data, error } = await supabase
+      .from("party_rooms")
+      .update({ host_id: userId })
+      .eq("id", room.id)
+      .select()
+      .single();
+    if (error) {
+      toast({ title: "Couldn't hand off", description: error.message, variant: "destructive" });
+      return;
+    }
+    setRoom(data);
+  }, [room, role, toast]);
+
+  const value = {
+    room,
+    role,
+    participants,
+    suggestions,
+    startParty,
+    joinParty,
+    leaveParty,
+    endParty,
+    suggestSong,
+    approveSuggestion,
+    dismissSuggestion,
+    handOff,
+  };
+
+  return <PartyContext.Provider value={value}>{children}</PartyContext.Provider>;
+};
@@ -0,0 +1,951 @@
+import { createContext, useCallback, useContext, useEffect, useReducer, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { useListeningHistory } from "@/hooks/useListeningHistory";
+import { useMediaSession } from "@/hooks/useMediaSession";
+import { usePreferences } from "@/hooks/usePreferences";
+import { crossfade } from "@/lib/crossfade";
+import { AudioGraph, createAudioGraph, FLAT_GAINS, normalizeGains } from "@/lib/equalizer";
+import { normalizationGain } from "@/lib/loudness";
+import { canTransition, nextRepeatMode, PlaybackStatus, PlaySource, RepeatMode, Song } from "@/lib/player";
+import {
+  clearUpcoming,
+  getUpcoming,
+  insertIntoQueue,
+  loadStoredQueue,
+  moveInQueue,
+  QueueItem,
+  QueuePosition,
+  removeFromQueue,
+  storeQueue,
+  toQueueItems,
+} from "@/lib/queue";
+import {
+  getDeviceId,
+  getDeviceName,
+  loadStoredPlayback,
+  PlaybackSession,
+  SESSION_SAVE_INTERVAL,
+  storePlayback,
+} from "@/lib/session";
+import { popHistory, pushHistory, shuffleQueue, unshuffleQueue } from "@/lib/shuffle";
+
+interface PlayerState {
+  status: PlaybackStatus;
+  queue: QueueItem[];
+  currentIndex: number;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  shuffle: boolean;
+  // Pre-shuffle queue order (by queueId), restored when shuffle is turned off
+  originalOrder: string[] | null;
+  // queueIds of songs actually heard, most recent last
+  history: string[];
+  repeat: RepeatMode;
+  playWhenReady: boolean;
+  error: string | null;
+  // Bumped whenever the audio element has to load a new source
+  loadId: number;
+}
+
+type PlayerAction =
+  | { type: "LOAD_QUEUE"; queue: QueueItem[]; index: number; autoplay: boolean }
+  | { type: "PLAY_NOW"; items: QueueItem[] }
+  | { type: "INSERT"; items: QueueItem[]; position: "next" | "end" }
+  | { type: "REMOVE"; index: number }
+  | { type: "MOVE"; from: number; to: number }
+  | { type: "CLEAR_UPCOMING" }
+  | { type: "UPDATE_SONG"; songId: string; changes: Partial<Song> }
+  | { type: "RESTORE_SESSION"; session: PlaybackSession; autoplay: boolean }
+  | { type: "SELECT"; index: number; autoplay: boolean; history?: string[] }
+  | { type: "STATUS"; status: PlaybackStatus; error?: string }
+  | { type: "PLAY_WHEN_READY"; value: boolean }
+  | { type: "TIME"; currentTime: number; duration: number }
+  | { type: "VOLUME"; volume: number }
+  | { type: "TOGGLE_SHUFFLE" }
+  | { type: "CYCLE_REPEAT" };
+
+interface PlayerContextType {
+  status: PlaybackStatus;
+  isPlaying: boolean;
+  queue: QueueItem[];
+  currentIndex: number;
+  currentSong: QueueItem | null;
+  currentTime: number;
+  duration: number;
+  volume: number;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  error: string | null;
+  loadQueue: (songs: Song[], startIndex?: number, autoplay?: boolean, source?: PlaySource) => void;
+  playNow: (song: Song) => void;
+  playNext: (songs: Song[]) => void;
+  addToQueue: (songs: Song[], source?: PlaySource) => void;
+  removeFromQueue: (index: number) => void;
+  moveInQueue: (from: number, to: number) => void;
+  clearQueue: () => void;
+  updateSong: (songId: string, changes: Partial<Song>) => void;
+  playAt: (index: number) => void;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  nextSong: () => void;
+  prevSong: () => void;
+  seekTo: (time: number) => void;
+  setVolume: (volume: number) => void;
+  toggleShuffle: () => void;
+  cycleRepeat: () => void;
+  resumeSession: (session: PlaybackSession) => void;
+}
+
+// With crossfade off the next song still starts this long before the current
+// one ends; waiting for "ended" and a re-render leaves an audible gap
+const GAPLESS_LEAD_SECONDS = 0.1;
+
+const initialState: PlayerState = {
+  status: "idle",
+  queue: [],
+  currentIndex: 0,
+  currentTime: 0,
+  duration: 0,
+  volume: 0.7,
+  shuffle: false,
+  originalOrder: null,
+  history: [],
+  repeat: "off",
+  playWhenReady: false,
+  error: null,
+  loadId: 0,
+};
+
+// Applies a new queue position, reloading the audio source only if the current entry changed
+const withQueue = (state: PlayerState, next: QueuePosition): PlayerState => {
+  const previous = state.queue[state.currentIndex];
+  const current = next.queue[next.currentIndex];
+  if (previous?.queueId === current?.queueId) {
+    return { ...state, ...next };
+  }
+  return {
+    ...state,
+    ...next,
+    currentTime: 0,
+    duration: 0,
+    status: current ? "loading" : "idle",
+    playWhenReady: current ? state.playWhenReady : false,
+    error: null,
+    loadId: state.loadId + 1,
+  };
+};
+
+const playerReducer = (state: PlayerState, action: PlayerAction): PlayerState => {
+  switch (action.type) {
+    case "LOAD_QUEUE": {
+      const loaded = { queue: action.queue, currentIndex: action.index };
+      const next = {
+        ...withQueue(state, state.shuffle ? shuffleQueue(loaded) : loaded),
+        originalOrder: state.shuffle ? action.queue.map((item) => item.queueId) : null,
+        history: [],
+      };
+      return next.loadId !== state.loadId ? { ...next, playWhenReady: action.autoplay } : next;
+    }
+    case "PLAY_NOW": {
+      const at = state.queue.length > 0 ? state.currentIndex + 1 : 0;
+      const { queue } = insertIntoQueue(state, action.items, at);
+      return {
+        ...withQueue(state, { queue, currentIndex: at }),
+        history: pushHistory(state.history, state.queue[state.currentIndex]?.queueId),
+        playWhenReady: true,
+      };
+    }
+    case "INSERT": {
+      const at = action.position === "end" || state.queue.length === 0 ? state.queue.length : state.currentIndex + 1;
+      return withQueue(state, insertIntoQueue(state, action.items, at));
+    }
+    case "REMOVE":
+      return withQueue(state, removeFromQueue(state, action.index));
+    case "MOVE":
+      return withQueue(state, moveInQueue(state, action.from, action.to));
+    case "CLEAR_UPCOMING":
+      return withQueue(state, clearUpcoming(state));
+    case "UPDATE_SONG":
+      // Details only, like new artwork; the audio keeps playing
+      return {
+        ...state,
+        queue: state.queue.map((item) => (item.id === action.songId ? { ...item, ...action.changes } : item)),
+      };
+    case "RESTORE_SESSION": {
+      // Always reloads, even if the same entry is current, so the saved position applies
+      const { session } = action;
+      const current = session.queue[session.currentIndex];
+      return {
+        ...state,
+        queue: session.queue,
+        currentIndex: session.currentIndex,
+        originalOrder: session.originalOrder,
+        shuffle: session.originalOrder !== null,
+        history: [],
+        volume: session.volume,
+        repeat: session.repeat,
+        currentTime: 0,
+        duration: 0,
+        status: current ? "loading" : "idle",
+        playWhenReady: !!current && action.autoplay,
+        error: null,
+        loadId: state.loadId + 1,
+      };
+    }
+    case "SELECT":
+      return {
+        ...state,
+        history: action.history ?? pushHistory(state.history, state.queue[state.currentIndex]?.queueId),
+        currentIndex: action.index,
+        currentTime: 0,
+        duration: 0,
+        playWhenReady: action.autoplay,
+        status: "loading",
+        error: null,
+        loadId: state.loadId + 1,
+      };
+    case "STATUS":
+      if (!canTransition(state.status, action.status)) return state;
+      return {
+        ...state,
+        status: action.status,
+        error: action.status === "error" ? action.error ?? "Playback failed" : null,
+      };
+    case "PLAY_WHEN_READY":
+      return { ...state, playWhenReady: action.value };
+    case "TIME":
+      return { ...state, currentTime: action.currentTime, duration: action.duration };
+    case "VOLUME":
+      return { ...state, volume: action.volume };
+    case "TOGGLE_SHUFFLE":
+      // The current song keeps playing either way; only the order around it changes
+      if (state.shuffle) {
+        return {
+          ...withQueue(state, unshuffleQueue(state, state.originalOrder ?? [])),
+          shuffle: false,
+          originalOrder: null,
+        };
+      }
+      return {
+        ...withQueue(state, shuffleQueue(state)),
+        shuffle: true,
+        originalOrder: state.queue.map((item) => item.queueId),
+      };
+    case "CYCLE_REPEAT":
+      return { ...state, repeat: nextRepeatMode(state.repeat) };
+    default:
+      return state;
+  }
+};
+
+const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
+
+export const usePlayer = () => {
+  const context = useContext(PlayerContext);
+  if (context === undefined) {
+    throw new Error("usePlayer must be used within a PlayerProvider");
+  }
+  return context;
+};
+
+export const PlayerProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { preferences } = usePreferences();
+  const { trackProgress, trackEnded } = useListeningHistory();
+  const [state, dispatch] = useReducer(playerReducer, initialState, (initial) => {
+    const stored = loadStoredQueue();
+    const playback = loadStoredPlayback();
+    return {
+      ...initial,
+      ...stored,
+      shuffle: stored.originalOrder !== null,
+      volume: playback?.volume ?? initial.volume,
+      repeat: playback?.repeat ?? initial.repeat,
+    };
+  });
+
+  // Two decks: the active one plays the current song while the standby one
+  // preloads whatever comes next, so track changes don't wait on the network
+  const deckARef = useRef<HTMLAudioElement>(null);
+  const deckBRef = useRef<HTMLAudioElement>(null);
+  // Plain elements that stand in for a deck while it holds a song whose host
+  // doesn't allow CORS, so the song plays without the Web Audio graph
+  const directARef = useRef<HTMLAudioElement>(null);
+  const directBRef = useRef<HTMLAudioElement>(null);
+  const bypassedRef = useRef([false, false]);
+  // Each deck's volume, applied to whichever element currently plays it
+  const deckVolumesRef = useRef([1, 1]);
+  const activeDeckRef = useRef(0);
+  const preloadedRef = useRef<string | null>(null);
+  const fadeRef = useRef<{ outgoing: HTMLAudioElement; cancel: () => void } | null>(null);
+  // Timer that starts a gapless handoff close to the end of the current song
+  const handoffTimerRef = useRef<number | null>(null);
+  // Position to seek to once a queue entry loads, e.g. the saved one after a page reload
+  const [initialSeek] = useState(() => {
+    const position = loadStoredPlayback()?.position ?? 0;
+    const song = state.queue[state.currentIndex];
+    return song && position > 0 ? { queueId: song.queueId, position } : null;
+  });
+  const pendingSeekRef = useRef<{ queueId: string; position: number } | null>(initialSeek);
+  // Web Audio graph, only built once the equalizer or normalization is first switched on
+  const graphRef = useRef<AudioGraph | null>(null);
+
+  // Media event handlers are registered once, so they read the latest state through refs
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const crossfadeRef = useRef(preferences.crossfade_seconds);
+  crossfadeRef.current = preferences.crossfade_seconds;
+  const normalizationRef = useRef(preferences);
+  normalizationRef.current = preferences;
+
+  const currentSong = state.queue[state.currentIndex] ?? null;
+  const upcoming = getUpcoming(state, state.repeat);
+
+  const getDeck = (index: number) => {
+    if (bypassedRef.current[index]) return index === 0 ? directARef.current : directBRef.current;
+    return index === 0 ? deckARef.current : deckBRef.current;
+  };
+  const getActiveDeck = useCallback(() => getDeck(activeDeckRef.current), []);
+  const getStandbyDeck = useCallback(() => getDeck(1 - activeDeckRef.current), []);
+
+  // Decks routed through the graph stay at full volume and get it from a GainNode
+  const setDeckVolume = useCallback((index: number, volume: number) => {
+    deckVolumesRef.current[index] = volume;
+    if (graphRef.current && !bypassedRef.current[index]) {
+      graphRef.current.setDeckVolume(index, volume);
+      return;
+    }
+    const deck = getDeck(index);
+    if (deck) deck.volume = volume;
+  }, []);
+
+  // Loads a song on a deck, back on its routed element if the last song bypassed the graph
+  const loadDeck = useCallback((index: number, url: string | null) => {
+    if (bypassedRef.current[index]) {
+      const direct = getDeck(index);
+      direct?.pause();
+      direct?.removeAttribute("src");
+      direct?.load();
+      bypassedRef.current[index] = false;
+      setDeckVolume(index, deckVolumesRef.current[index]);
+    }
+
+    const deck = getDeck(index);
+    if (!deck) return;
+    if (url) {
+      deck.src = url;
+    } else {
+      deck.removeAttribute("src");
+    }
+    deck.load();
+  }, [setDeckVolume]);
+
+  // Routed decks fetch with CORS, which fails outright on hosts that don't
+  // allow it; the deck's plain element loads the song again without it
+  const bypassGraph = useCallback((index: number) => {
+    const routed = getDeck(index);
+    const url = routed?.getAttribute("src");
+    if (!url) return;
+
+    routed.removeAttribute("src");
+    routed.load();
+    bypassedRef.current[index] = true;
+    setDeckVolume(index, deckVolumesRef.current[index]);
+    const direct = getDeck(index);
+    if (!direct) return;
+    direct.src = url;
+    direct.load();
+  }, [setDeckVolume]);
+
+  // Applies the pending seek once the deck has loaded that queue entry's metadata
+  const seekWhenLoaded = useCallback((deck: HTMLAudioElement, queueId: string) => {
+    const seek = pendingSeekRef.current;
+    if (seek?.queueId !== queueId) return;
+    deck.addEventListener("loadedmetadata", () => {
+      if (pendingSeekRef.current !== seek) return;
+      deck.currentTime = seek.position;
+      pendingSeekRef.current = null;
+    }, { once: true });
+  }, []);
+
+  // Sets a deck's normalization gain for the song it holds
+  const applyNormalization = useCallback((deck: number, song: Song | null | undefined) => {
+    const graph = graphRef.current;
+    if (!graph) return;
+
+    const { normalize_volume, normalization_mode } = normalizationRef.current;
+    const gain = normalize_volume && song ? normalizationGain(song, normalization_mode) : 0;
+    graph.setDeckGain(deck, gain);
+  }, []);
+
+  const preloadNext = useCallback(() => {
+    // While a crossfade runs the standby deck is still fading out the previous song
+    const standby = getStandbyDeck();
+    if (!standby || fadeRef.current) return;
+
+    const { repeat } = stateRef.current;
+    const next = getUpcoming(stateRef.current, repeat);
+    if (!next) {
+      preloadedRef.current = null;
+      return;
+    }
+    if (preloadedRef.current === next.queueId) return;
+
+    loadDeck(1 - activeDeckRef.current, next.url);
+    preloadedRef.current = next.queueId;
+    applyNormalization(1 - activeDeckRef.current, next);
+  }, [getStandbyDeck, loadDeck, applyNormalization]);
+
+  const stopFade = useCallback(() => {
+    if (handoffTimerRef.current !== null) {
+      window.clearTimeout(handoffTimerRef.current);
+      handoffTimerRef.current = null;
+    }
+    const fade = fadeRef.current;
+    if (!fade) return;
+
+    fade.cancel();
+    fade.outgoing.pause();
+    fadeRef.current = null;
+    setDeckVolume(activeDeckRef.current, stateRef.current.volume);
+  }, [setDeckVolume]);
+
+  const startPlayback = useCallback(() => {
+    const audio = getActiveDeck();
+    if (!audio || !audio.src) return;
+
+    // Browsers keep an AudioContext suspended until a user gesture resumes it
+    graphRef.current?.context.resume();
+    dispatch({ type: "PLAY_WHEN_READY", value: true });
+    audio.play().catch((error) => {
+      // Autoplay restrictions reject play() without a user gesture; treat that as paused
+      if (error?.name === "NotAllowedError") {
+        dispatch({ type: "PLAY_WHEN_READY", value: false });
+        dispatch({ type: "STATUS", status: "paused" });
+      } else if (error?.name !== "AbortError") {
+        console.error("Error starting playback:", error);
+      }
+    });
+  }, [getActiveDeck]);
+
+  // Point the active deck at the current song whenever it changes. Only a new
+  // loadId means a new source, so the song is read through stateRef.
+  useEffect(() => {
+    const song = stateRef.current.queue[stateRef.current.currentIndex];
+    const active = getActiveDeck();
+    const standby = getStandbyDeck();
+    if (!active || !standby) return;
+
+    if (!song) {
+      stopFade();
+      loadDeck(0, null);
+      loadDeck(1, null);
+      preloadedRef.current = null;
+      return;
+    }
+
+    if (preloadedRef.current === song.queueId && standby.getAttribute("src")) {
+      // The song is already buffered on the standby deck: swap decks instead of reloading
+      activeDeckRef.current = 1 - activeDeckRef.current;
+      preloadedRef.current = null;
+      if (!fadeRef.current) {
+        active.pause();
+        setDeckVolume(activeDeckRef.current, stateRef.current.volume);
+      }
+
+      dispatch({ type: "TIME", currentTime: standby.currentTime, duration: standby.duration || 0 });
+      if (!standby.paused) {
+        dispatch({ type: "STATUS", status: "playing" });
+      } else if (stateRef.current.playWhenReady) {
+        startPlayback();
+      } else if (standby.readyState >= HTMLMediaElement.HAVE_FUTURE_DATA) {
+        dispatch({ type: "STATUS", status: "paused" });
+      }
+      return;
+    }
+
+    stopFade();
+    loadDeck(activeDeckRef.current, song.url);
+    seekWhenLoaded(getActiveDeck(), song.queueId);
+    if (stateRef.current.playWhenReady) {
+      startPlayback();
+    }
+  }, [state.loadId, getActiveDeck, getStandbyDeck, loadDeck, seekWhenLoaded, setDeckVolume, startPlayback, stopFade]);
+
+  // Buffer the next song on the standby deck
+  useEffect(() => {
+    preloadNext();
+  }, [upcoming?.queueId, state.loadId, preloadNext]);
+
+  useEffect(() => {
+    if (!fadeRef.current) {
+      setDeckVolume(activeDeckRef.current, state.volume);
+    }
+  }, [state.volume, setDeckVolume]);
+
+  // Reloads the current source in place, keeping position and play state
+  const reloadCurrentSource = useCallback(() => {
+    const active = getActiveDeck();
+    const song = stateRef.current.queue[stateRef.current.currentIndex];
+    if (!active || !song) return;
+
+    // A seek still waiting on the old load, e.g. right after a page reload, carries over
+    const seek = pendingSeekRef.current;
+    pendingSeekRef.current = {
+      queueId: song.queueId,
+      position: seek?.queueId === song.queueId ? seek.position : active.currentTime,
+    };
+    const wasPlaying = !active.paused;
+    loadDeck(activeDeckRef.current, song.url);
+    seekWhenLoaded(getActiveDeck(), song.queueId);
+    if (wasPlaying) startPlayback();
+
+    preloadedRef.current = null;
+    preloadNext();
+  }, [getActiveDeck, loadDeck, seekWhenLoaded, preloadNext, startPlayback]);
+
+  // Equalizer and normalization: route both decks through the Web Audio graph once either is enabled.
+  // Sources must be fetched with CORS for Web Audio to read them, so the
+  // current song is reloaded in that mode when the graph is first built.
+  // Songs from hosts without CORS skip the graph (see bypassGraph).
+  useEffect(() => {
+    if (!graphRef.current) {
+      if (!(preferences.eq_enabled || preferences.normalize_volume) || !deckARef.current || !deckBRef.current) return;
+
+      try {
+        [deckARef.current, deckBRef.current].forEach((deck) => {
+          deck.crossOrigin = "anonymous";
+        });
+        graphRef.current = createAudioGraph([deckARef.current, deckBRef.current]);
+        [deckARef.current, deckBRef.current].forEach((deck, index) => {
+          deck.volume = 1;
+          setDeckVolume(index, deckVolumesRef.current[index]);
+        });
+        reloadCurrentSource();
+      } catch (error) {
+        console.error("Error setting up audio effects:", error);
+        toast({ title: "Audio effects unavailable", description: "Your browser does not support the Web Audio API", variant: "destructive" });
+        return;
+      }
+    }
+
+    graphRef.current.setGains(preferences.eq_enabled ? normalizeGains(preferences.eq_gains) : FLAT_GAINS);
+  }, [preferences.eq_enabled, preferences.eq_gains, preferences.normalize_volume, reloadCurrentSource, setDeckVolume, toast]);
+
+  // Loudness normalization for the current song and whatever the standby deck
+  // has preloaded. During a crossfade the standby deck is the outgoing song,
+  // which keeps the gain it started with.
+  useEffect(() => {
+    const { queue, currentIndex } = stateRef.current;
+    applyNormalization(activeDeckRef.current, queue[currentIndex]);
+    if (!fadeRef.current) {
+      applyNormalization(1 - activeDeckRef.current, queue.find((item) => item.queueId === preloadedRef.current));
+    }
+  }, [state.loadId, state.queue, preferences.normalize_volume, preferences.normalization_mode, applyNormalization]);
+
+  // Keep the queue across page reloads
+  useEffect(() => {
+    storeQueue({ queue: state.queue, currentIndex: state.currentIndex, originalOrder: state.originalOrder });
+  }, [state.queue, state.currentIndex, state.originalOrder]);
+
+  // Position, volume and repeat are saved locally on every change that matters
+  // and every few seconds while playing; signed-in users also get a copy in
+  // playback_sessions so another device can pick up from here
+  // Until a pending seek is applied the audio element still reports 0
+  const getPosition = useCallback(() => {
+    const { queue, currentIndex, currentTime } = stateRef.current;
+    const seek = pendingSeekRef.current;
+    return seek && seek.queueId === queue[currentIndex]?.queueId ? seek.position : currentTime;
+  }, []);
+
+  const savePlayback = useCallback(() => {
+    const { volume, repeat } = stateRef.current;
+    storePlayback({ position: getPosition(), volume, repeat });
+  }, [getPosition]);
+
+  const saveSession = useCallback(async () => {
+    if (!user) return;
+    const { queue, currentIndex, originalOrder, volume, repeat } = stateRef.current;
+    if (queue.length === 0) return;
+
+    const { error } = await supabase.from("playback_sessions").upsert(
+      {
+        user_id: user.id,
+        device_id: getDeviceId(),
+        device_name: getDeviceName(),
+        queue: queue as unknown as Json,
+        current_index: currentIndex,
+        original_order: originalOrder,
+        position: getPosition(),
+        volume,
+        repeat_mode: repeat,
+      },
+      { onConflict: "user_id,device_id" }
+    );
+
+    if (error) {
+      console.error("Error saving playback session:", error);
+    }
+  }, [user, getPosition]);
+
+  useEffect(() => {
+    savePlayback();
+    saveSession();
+  }, [currentSong?.queueId, state.playWhenReady, state.repeat, state.shuffle, savePlayback, saveSession]);
+
+  useEffect(() => {
+    savePlayback();
+  }, [state.volume, savePlayback]);
+
+  useEffect(() => {
+    const saveWhilePlaying = () => {
+      if (!stateRef.current.playWhenReady) return;
+      savePlayback();
+      saveSession();
+    };
+    const saveOnExit = () => {
+      savePlayback();
+      saveSession();
+    };
+
+    const interval = setInterval(saveWhilePlaying, SESSION_SAVE_INTERVAL);
+    window.addEventListener("pagehide", saveOnExit);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", saveOnExit);
+    };
+  }, [savePlayback, saveSession]);
+
+  const selectIndex = useCallback((index: number, autoplay: boolean, history?: string[]) => {
+    const audio = getActiveDeck();
+    // Re-selecting the current song restarts it instead of reloading the source
+    if (audio && index === stateRef.current.currentIndex && audio.src) {
+      audio.currentTime = 0;
+      if (autoplay) startPlayback();
+      return;
+    }
+    dispatch({ type: "SELECT", index, autoplay, history });
+  }, [getActiveDeck, startPlayback]);
+
+  const nextSong = useCallback(() => {
+    const { queue, currentIndex, repeat, status, playWhenReady } = stateRef.current;
+    if (queue.length === 0) return;
+
+    // Only "repeat all" wraps around; with shuffle on the queue is already in shuffled order
+    const atEnd = currentIndex >= queue.length - 1;
+    if (atEnd && repeat !== "all") return;
+
+    const nextIndex = atEnd ? 0 : currentIndex + 1;
+    selectIndex(nextIndex, playWhenReady || status === "ended");
+  }, [selectIndex]);
+
+  const prevSong = useCallback(() => {
+    const { queue, currentIndex, history, playWhenReady } = stateRef.current;
+    if (queue.length === 0) return;
+
+    // Go back to the song that was actually heard before, falling back to queue order
+    const previous = popHistory(history, queue);
+    if (previous.index !== -1) {
+      selectIndex(previous.index, playWhenReady, previous.history);
+      return;
+    }
+
+    const prevIndex = currentIndex === 0 ? queue.length - 1 : currentIndex - 1;
+    selectIndex(prevIndex, playWhenReady, []);
+  }, [selectIndex]);
+
+  // Starts the preloaded next song on the standby deck, fading the current one
+  // out over whatever is left of it, then advances the queue onto it. The
+  // outgoing song counts as finished here, since its "ended" event is ignored.
+  const handOff = useCallback((deck: HTMLAudioElement) => {
+    const { queue, currentIndex, repeat, playWhenReady } = stateRef.current;
+    if (fadeRef.current || !playWhenReady || repeat === "one" || deck.ended) return;
+
+    const next = getUpcoming(stateRef.current, repeat);
+    const standby = getStandbyDeck();
+    if (!next || !standby || preloadedRef.current !== next.queueId) return;
+
+    const outgoingDeck = activeDeckRef.current;
+    setDeckVolume(1 - outgoingDeck, 0);
+    const cancel = crossfade(
+      (volume) => setDeckVolume(outgoingDeck, volume),
+      (volume) => setDeckVolume(1 - outgoingDeck, volume),
+      deck.duration - deck.currentTime,
+      () => stateRef.current.volume,
+      () => {
+        deck.pause();
+        fadeRef.current = null;
+        preloadNext();
+      }
+    );
+    fadeRef.current = { outgoing: deck, cancel };
+    if (queue[currentIndex]) trackEnded(queue[currentIndex]);
+
+    standby.play().then(nextSong).catch((error) => {
+      console.error("Error starting crossfade:", error);
+      stopFade();
+      if (deck.ended) nextSong();
+    });
+  }, [getStandbyDeck, nextSong, preloadNext, setDeckVolume, stopFade, trackEnded]);
+
+  // Hands off to the next song once the current one is within the crossfade
+  // window. Without crossfade, timeupdate fires too rarely to catch the last
+  // moment, so a timer starts the handoff just before the end.
+  const maybeStartCrossfade = useCallback((deck: HTMLAudioElement) => {
+    const seconds = crossfadeRef.current;
+    if (fadeRef.current || handoffTimerRef.current !== null || deck.paused) return;
+
+    const remaining = deck.duration - deck.currentTime;
+    if (!isFinite(remaining)) return;
+
+    if (seconds > 0) {
+      if (remaining <= seconds) handOff(deck);
+      return;
+    }
+
+    // Scheduled within the last second; a seek since then leaves it to the next update
+    if (remaining > 1) return;
+    handoffTimerRef.current = window.setTimeout(() => {
+      handoffTimerRef.current = null;
+      const left = deck.duration - deck.currentTime;
+      if (deck === getActiveDeck() && !deck.paused && left <= GAPLESS_LEAD_SECONDS * 2) handOff(deck);
+    }, (Math.max(remaining - GAPLESS_LEAD_SECONDS, 0) * 1000) / deck.playbackRate);
+  }, [getActiveDeck, handOff]);
+
+  // Audio event wiring; only events from the active deck drive the state machine
+  useEffect(() => {
+    const decks = [deckARef, deckBRef, directARef, directBRef].map((ref) => ref.current).filter(Boolean);
+    if (decks.length < 4) return;
+
+    const fromActive = (handler: (audio: HTMLAudioElement) => void) => (event: Event) => {
+      const audio = event.currentTarget as HTMLAudioElement;
+      if (audio === getActiveDeck()) handler(audio);
+    };
+
+    const updateTime = fromActive((audio) => {
+      dispatch({
+        type: "TIME",
+        currentTime: audio.currentTime,
+        duration: audio.duration || 0,
+      });
+      const { queue, currentIndex } = stateRef.current;
+      trackProgress(queue[currentIndex] ?? null, audio.currentTime, audio.duration || 0);
+      maybeStartCrossfade(audio);
+    });
+
+    const handleLoadStart = fromActive(() => dispatch({ type: "STATUS", status: "loading" }));
+    const handleCanPlay = fromActive((audio) => {
+      if (audio.paused && !stateRef.current.playWhenReady) {
+        dispatch({ type: "STATUS", status: "paused" });
+      }
+    });
+    const handlePlay = fromActive(() => dispatch({ type: "PLAY_WHEN_READY", value: true }));
+    const handlePlaying = fromActive(() => dispatch({ type: "STATUS", status: "playing" }));
+    const handlePause = fromActive((audio) => {
+      if (audio.ended) return;
+      dispatch({ type: "PLAY_WHEN_READY", value: false });
+      dispatch({ type: "STATUS", status: "paused" });
+    });
+    const handleWaiting = fromActive(() => dispatch({ type: "STATUS", status: "buffering" }));
+    const handleError = (event: Event) => {
+      const audio = event.currentTarget as HTMLAudioElement;
+      if (!audio.getAttribute("src")) return;
+      const routedDeck = graphRef.current ? [deckARef.current, deckBRef.current].indexOf(audio) : -1;
+      if (routedDeck !== -1) {
+        bypassGraph(routedDeck);
+        const { queue, currentIndex, playWhenReady } = stateRef.current;
+        if (routedDeck === activeDeckRef.current && queue[currentIndex]) {
+          seekWhenLoaded(getActiveDeck(), queue[currentIndex].queueId);
+          if (playWhenReady) startPlayback();
+        }
+        return;
+      }
+      if (audio !== getActiveDeck()) {
+        // A failed preload just means the next song loads normally when its turn comes
+        preloadedRef.current = null;
+        return;
+      }
+      const message = audio.error?.message || "This song could not be played";
+      dispatch({ type: "STATUS", status: "error", error: message });
+      toast({ title: "Playback error", description: message, variant: "destructive" });
+    };
+    const handleEnded = fromActive((audio) => {
+      // A handoff already moved on from this song and recorded it
+      if (fadeRef.current?.outgoing === audio) return;
+      dispatch({ type: "STATUS", status: "ended" });
+      const { queue, currentIndex, repeat } = stateRef.current;
+      if (queue[currentIndex]) trackEnded(queue[currentIndex]);
+      if (repeat === "one") {
+        audio.currentTime = 0;
+        startPlayback();
+      } else if (currentIndex >= queue.length - 1 && repeat === "off") {
+        // End of the queue: stop here instead of wrapping around
+        dispatch({ type: "PLAY_WHEN_READY", value: false });
+      } else {
+        nextSong();
+      }
+    });
+
+    const listeners: [string, (event: Event) => void][] = [
+      ["timeupdate", updateTime],
+      ["loadedmetadata", updateTime],
+      ["durationchange", updateTime],
+      ["loadstart", handleLoadStart],
+      ["canplay", handleCanPlay],
+      ["play", handlePlay],
+      ["playing", handlePlaying],
+      ["pause", handlePause],
+      ["waiting", handleWaiting],
+      ["error", handleError],
+      ["ended", handleEnded],
+    ];
+
+    decks.forEach((deck) => listeners.forEach(([type, listener]) => deck.addEventListener(type, listener)));
+
+    return () => {
+      decks.forEach((deck) => listeners.forEach(([type, listener]) => deck.removeEventListener(type, listener)));
+    };
+  }, [bypassGraph, getActiveDeck, maybeStartCrossfade, nextSong, seekWhenLoaded, startPlayback, toast, trackEnded, trackProgress]);
+
+  const loadQueue = useCallback((songs: Song[], startIndex = 0, autoplay = false, source: PlaySource = "library") => {
+    const index = Math.min(Math.max(startIndex, 0), Math.max(songs.length - 1, 0));
+    const items = toQueueItems(songs, source);
+    const { queue, currentIndex } = stateRef.current;
+    const current = queue[currentIndex];
+    // Loading the same song again (e.g. clicking the playing row) should not interrupt it
+    if (current && items[index]?.id === current.id) {
+      items[index] = current;
+      dispatch({ type: "LOAD_QUEUE", queue: items, index, autoplay });
+      if (autoplay) startPlayback();
+      return;
+    }
+    dispatch({ type: "LOAD_QUEUE", queue: items, index, autoplay });
+  }, [startPlayback]);
+
+  const playNow = useCallback((song: Song) => {
+    dispatch({ type: "PLAY_NOW", items: toQueueItems([song], "queue") });
+  }, []);
+
+  const playNext = useCallback((songs: Song[]) => {
+    dispatch({ type: "INSERT", items: toQueueItems(songs, "queue"), position: "next" });
+  }, []);
+
+  const addToQueue = useCallback((songs: Song[], source: PlaySource = "queue") => {
+    dispatch({ type: "INSERT", items: toQueueItems(songs, source), position: "end" });
+  }, []);
+
+  const removeQueueItem = useCallback((index: number) => dispatch({ type: "REMOVE", index }), []);
+  const moveQueueItem = useCallback((from: number, to: number) => dispatch({ type: "MOVE", from, to }), []);
+  const clearQueue = useCallback(() => dispatch({ type: "CLEAR_UPCOMING" }), []);
+  const updateSong = useCallback(
+    (songId: string, changes: Partial<Song>) => dispatch({ type: "UPDATE_SONG", songId, changes }),
+    []
+  );
+
+  const playAt = useCallback((index: number) => {
+    if (index < 0 || index >= stateRef.current.queue.length) return;
+    selectIndex(index, true);
+  }, [selectIndex]);
+
+  const pause = useCallback(() => {
+    dispatch({ type: "PLAY_WHEN_READY", value: false });
+    stopFade();
+    getActiveDeck()?.pause();
+  }, [getActiveDeck, stopFade]);
+
+  const isPlaying =
+    state.status === "playing" ||
+    state.status === "buffering" ||
+    (state.status === "loading" && state.playWhenReady);
+
+  const togglePlay = useCallback(() => {
+    if (!currentSong) return;
+    if (isPlaying) {
+      pause();
+    } else {
+      startPlayback();
+    }
+  }, [currentSong, isPlaying, pause, startPlayback]);
+
+  const seekTo = useCallback((time: number) => {
+    const audio = getActiveDeck();
+    if (!audio || !audio.src) return;
+
+    audio.currentTime = time;
+    dispatch({ type: "TIME", currentTime: time, duration: audio.duration || 0 });
+  }, [getActiveDeck]);
+
+  const setVolume = useCallback((volume: number) => {
+    dispatch({ type: "VOLUME", volume: Math.min(Math.max(volume, 0), 1) });
+  }, []);
+
+  const toggleShuffle = useCallback(() => dispatch({ type: "TOGGLE_SHUFFLE" }), []);
+  const cycleRepeat = useCallback(() => dispatch({ type: "CYCLE_REPEAT" }), []);
+
+  const resumeSession = useCallback((session: PlaybackSession) => {
+    const current = session.queue[session.currentIndex];
+    pendingSeekRef.current = current ? { queueId: current.queueId, position: session.position } : null;
+    dispatch({ type: "RESTORE_SESSION", session, autoplay: true });
+  }, []);
+
+  useMediaSession({
+    song: currentSong,
+    isPlaying,
+    currentTime: state.currentTime,
+    duration: state.duration,
+    play: startPlayback,
+    pause,
+    nextSong,
+    prevSong,
+    seekTo,
+  });
+
+  const value = {
+    status: state.status,
+    isPlaying,
+    queue: state.queue,
+    currentIndex: state.currentIndex,
+    currentSong,
+    currentTime: state.currentTime,
+    duration: state.duration,
+    volume: state.volume,
+    shuffle: state.shuffle,
+    repeat: state.repeat,
+    error: state.error,
+    loadQueue,
+    playNow,
+    playNext,
+    addToQueue,
+    removeFromQueue: removeQueueItem,
+    moveInQueue: moveQueueItem,
+    clearQueue,
+    updateSong,
+    playAt,
+    play: startPlayback,
+    pause,
+    togglePlay,
+    nextSong,
+    prevSong,
+    seekTo,
+    setVolume,
+    toggleShuffle,
+    cycleRepeat,
+    resumeSession,
+  };
+
+  return (
+    <PlayerContext.Provider value={value}>
+      {children}
+      <audio ref={deckARef} preload="auto" />
+      <audio ref={deckBRef} preload="auto" />
+      <audio ref={directARef} preload="auto" />
+      <audio ref={directBRef} preload="auto" />
+    </PlayerContext.Provider>
+  );
+};
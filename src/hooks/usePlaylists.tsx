@@ -0,0 +1,463 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useLikes } from "@/hooks/useLikes";
+import { useToast } from "@/hooks/use-toast";
+import { isLibrarySong, Song } from "@/lib/player";
+import { moveItem, Playlist, PlaylistDetails, PLAYLIST_SELECT, toPlaylist } from "@/lib/playlists";
+import {
+  evaluateRules,
+  SMART_REFRESH_INTERVAL,
+  SmartContext,
+  SongActivity,
+  usesLikes,
+} from "@/lib/smartPlaylists";
+
+interface PlaylistsContextType {
+  // Playlists the signed-in user owns or collaborates on, newest first
+  playlists: Playlist[];
+  loading: boolean;
+  reloadPlaylists: () => Promise<void>;
+  createPlaylist: (details: PlaylistDetails, songs?: Song[]) => Promise<Playlist | null>;
+  updatePlaylist: (playlistId: string, changes: Partial<PlaylistDetails>) => Promise<void>;
+  deletePlaylist: (playlistId: string) => Promise<void>;
+  addToPlaylist: (playlistId: string, songs: Song[]) => Promise<void>;
+  removeFromPlaylist: (playlistId: string, songId: string) => Promise<void>;
+  reorderPlaylist: (playlistId: string, from: number, to: number) => Promise<void>;
+  // Songs, likes and history that smart playlist rules are evaluated against
+  loadSmartContext: () => Promise<SmartContext>;
+  refreshSmartPlaylist: (playlistId: string) => Promise<void>;
+  inviteCollaborator: (playlistId: string, email: string) => Promise<boolean>;
+  // Removing yourself leaves a playlist someone else owns
+  removeCollaborator: (playlistId: string, userId: string) => Promise<void>;
+}
+
+// How often open sessions look for stale smart playlists
+const SMART_CHECK_INTERVAL = 5 * 60 * 1000;
+
+// Realtime changes are batched before a playlist is reloaded
+const REALTIME_RELOAD_DELAY = 500;
+
+// Realtime "in" filters accept at most 100 values
+const REALTIME_FILTER_SIZE = 100;
+
+// A playlist_songs or playlist_collaborators row change
+type PlaylistChange = RealtimePostgresChangesPayload<{ playlist_id?: string; user_id?: string }>;
+
+// Only the most recent plays are considered by smart playlist rules
+const SMART_HISTORY_LIMIT = 5000;
+
+// Supabase column values for playlist details; rules are stored as JSON
+const toPlaylistRow = ({ rules, ...details }: Partial<PlaylistDetails>) => ({
+  ...details,
+  ...(rules !== undefined && { rules: rules as unknown as Json }),
+});
+
+const isStale = (playlist: Playlist) =>
+  !playlist.rules_refreshed_at ||
+  Date.now() - new Date(playlist.rules_refreshed_at).getTime() > SMART_REFRESH_INTERVAL;
+
+const PlaylistsContext = createContext<PlaylistsContextType | undefined>(undefined);
+
+export const usePlaylists = () => {
+  const context = useContext(PlaylistsContext);
+  if (context === undefined) {
+    throw new Error("usePlaylists must be used within a PlaylistsProvider");
+  }
+  return context;
+};
+
+export const PlaylistsProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { likedSongs } = useLikes();
+  const { toast } = useToast();
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [loading, setLoading] = useState(false);
+  const playlistsRef = useRef(playlists);
+  playlistsRef.current = playlists;
+  const likedSongsRef = useRef(likedSongs);
+  likedSongsRef.current = likedSongs;
+  const refreshingRef = useRef(new Set<string>());
+  const reloadTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // The loaded playlists' ids as one string, so the realtime subscription only restarts when that set changes
+  const playlistIdsKey = useMemo(() => playlists.map((playlist) => playlist.id).sort().join(","), [playlists]);
+
+  const reloadPlaylists = useCallback(async () => {
+    if (!user) {
+      setPlaylists([]);
+      return;
+    }
+
+    setLoading(true);
+    // Public playlists are readable too, so only ask for own and shared ones
+    const { data: shared, error: sharedError } = await supabase
+      .from("playlist_collaborators")
+      .select("playlist_id")
+      .eq("user_id", user.id);
+    const sharedIds = (shared || []).map((row) => row.playlist_id);
+
+    const { data, error } = sharedError
+      ? { data: null, error: sharedError }
+      : await supabase
+          .from("playlists")
+          .select(PLAYLIST_SELECT)
+          .or(sharedIds.length > 0 ? `user_id.eq.${user.id},id.in.(${sharedIds.join(",")})` : `user_id.eq.${user.id}`)
+          .order("created_at", { ascending: false });
+
+    if (error) {
+      toast({ title: "Error loading playlists", description: error.message, variant: "destructive" });
+    } else {
+      playlistsRef.current = (data || []).map(toPlaylist);
+      setPlaylists(playlistsRef.current);
+    }
+    setLoading(false);
+  }, [user, toast]);
+
+  const updateLocal = (playlistId: string, update: (playlist: Playlist) => Playlist) => {
+    setPlaylists((prev) => prev.map((playlist) => (playlist.id === playlistId ? update(playlist) : playlist)));
+  };
+
+  const reloadPlaylist = useCallback(async (playlistId: string) => {
+    const { data, error } = await supabase
+      .from("playlists")
+      .select(PLAYLIST_SELECT)
+      .eq("id", playlistId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error reloading playlist:", error);
+    } else if (data) {
+      updateLocal(playlistId, () => toPlaylist(data));
+    }
+  }, []);
+
+  // Songs added, removed or reordered by collaborators (or other tabs) show up live
+  useEffect(() => {
+    if (!user) return;
+    const timers = reloadTimersRef.current;
+
+    const scheduleReload = (playlistId: string) => {
+      clearTimeout(timers.get(playlistId));
+      timers.set(playlistId, setTimeout(() => {
+        timers.delete(playlistId);
+        reloadPlaylist(playlistId);
+      }, REALTIME_RELOAD_DELAY));
+    };
+
+    const handleSongChange = (payload: PlaylistChange) => {
+      const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+      if (row.playlist_id && playlistsRef.current.some((p) => p.id === row.playlist_id)) {
+        scheduleReload(row.playlist_id);
+      }
+    };
+
+    const handleCollaboratorChange = (payload: PlaylistChange) => {
+      const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+      if (row.user_id === user.id) {
+        // Invited to or removed from a playlist
+        reloadPlaylists();
+      } else if (row.playlist_id && playlistsRef.current.some((p) => p.id === row.playlist_id)) {
+        scheduleReload(row.playlist_id);
+      }
+    };
+
+    // Only the playlists the user owns or collaborates on, plus their own invites.
+    // Deletes aren't filtered server-side, hence the checks in the handlers.
+    const channel = supabase
+      .channel(`playlists-${user.id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "playlist_collaborators", filter: `user_id=eq.${user.id}` },
+        handleCollaboratorChange
+      );
+    const playlistIds = playlistIdsKey ? playlistIdsKey.split(",") : [];
+    for (let i = 0; i < playlistIds.length; i += REALTIME_FILTER_SIZE) {
+      const filter = `playlist_id=in.(${playlistIds.slice(i, i + REALTIME_FILTER_SIZE).join(",")})`;
+      channel
+        .on("postgres_changes", { event: "*", schema: "public", table: "playlist_songs", filter }, handleSongChange)
+        .on("postgres_changes", { event: "*", schema: "public", table: "playlist_collaborators", filter }, handleCollaboratorChange);
+    }
+    channel.subscribe();
+
+    return () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      supabase.removeChannel(channel);
+    };
+  }, [user, playlistIdsKey, reloadPlaylist, reloadPlaylists]);
+
+  const loadSmartContext = useCallback(async (): Promise<SmartContext> => {
+    const [songsResult, historyResult] = await Promise.all([
+      supabase.from("songs").select("*"),
+      user
+        ? supabase
+            .from("listening_history")
+            .select("song_id, started_at")
+            .eq("user_id", user.id)
+            .order("started_at", { ascending: false })
+            .limit(SMART_HISTORY_LIMIT)
+        : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (songsResult.error) throw songsResult.error;
+    if (historyResult.error) throw historyResult.error;
+
+    const activity = new Map<string, SongActivity>();
+    (historyResult.data || []).forEach(({ song_id, started_at }) => {
+      const entry = activity.get(song_id) || { plays: 0, lastPlayed: null };
+      entry.plays += 1;
+      entry.lastPlayed = Math.max(entry.lastPlayed || 0, new Date(started_at).getTime());
+      activity.set(song_id, entry);
+    });
+
+    return {
+      songs: songsResult.data || [],
+      likedIds: new Set(likedSongsRef.current.map((song) => song.id)),
+      activity,
+    };
+  }, [user]);
+
+  // Re-evaluates the rules and rewrites the playlist's songs to match
+  const refreshSmartPlaylist = useCallback(async (playlistId: string) => {
+    const playlist = playlistsRef.current.find((p) => p.id === playlistId);
+    if (!playlist?.rules || refreshingRef.current.has(playlistId)) return;
+
+    refreshingRef.current.add(playlistId);
+    try {
+      const songs = evaluateRules(playlist.rules, await loadSmartContext());
+
+      const { data: refreshedAt, error } = await supabase.rpc("refresh_smart_playlist", {
+        _playlist_id: playlistId,
+        _song_ids: songs.map((song) => song.id),
+      });
+      if (error) throw error;
+
+      updateLocal(playlistId, (p) => ({
+        ...p,
+        songs,
+        addedBy: Object.fromEntries(songs.map((song) => [song.id, p.user_id])),
+        rules_refreshed_at: refreshedAt,
+      }));
+    } catch (error) {
+      console.error("Error refreshing smart playlist:", error);
+    } finally {
+      refreshingRef.current.delete(playlistId);
+    }
+  }, [loadSmartContext]);
+
+  const refreshStalePlaylists = useCallback(() => {
+    playlistsRef.current
+      .filter((playlist) => playlist.rules && playlist.user_id === user?.id && isStale(playlist))
+      .forEach((playlist) => refreshSmartPlaylist(playlist.id));
+  }, [user, refreshSmartPlaylist]);
+
+  useEffect(() => {
+    reloadPlaylists().then(refreshStalePlaylists);
+  }, [reloadPlaylists, refreshStalePlaylists]);
+
+  useEffect(() => {
+    const interval = setInterval(refreshStalePlaylists, SMART_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [refreshStalePlaylists]);
+
+  // Liking or unliking a song changes playlists that have a "Liked" rule
+  const likedKey = likedSongs.map((song) => song.id).join(",");
+  const previousLikedKeyRef = useRef<string | null>(null);
+  useEffect(() => {
+    const previous = previousLikedKeyRef.current;
+    previousLikedKeyRef.current = likedKey;
+    if (previous === null || previous === likedKey) return;
+
+    playlistsRef.current
+      .filter((playlist) => playlist.rules && playlist.user_id === user?.id && usesLikes(playlist.rules))
+      .forEach((playlist) => refreshSmartPlaylist(playlist.id));
+  }, [likedKey, user, refreshSmartPlaylist]);
+
+  const addToPlaylist = useCallback(async (playlistId: string, songs: Song[]) => {
+    const playlist = playlistsRef.current.find((p) => p.id === playlistId);
+    if (!playlist) return;
+    if (playlist.rules) {
+      toast({ title: "Smart playlist", description: "Edit the rules to change which songs it contains" });
+      return;
+    }
+
+    const existing = new Set(playlist.songs.map((song) => song.id));
+    const newSongs = songs.filter((song) => {
+      if (!isLibrarySong(song) || existing.has(song.id)) return false;
+      existing.add(song.id);
+      return true;
+    });
+    if (newSongs.length === 0) {
+      toast({ title: "Already in playlist", description: playlist.name });
+      return;
+    }
+
+    const { error } = await supabase.from("playlist_songs").insert(
+      newSongs.map((song, index) => ({
+        playlist_id: playlistId,
+        song_id: song.id,
+        position: playlist.songs.length + index,
+      }))
+    );
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    updateLocal(playlistId, (p) => ({
+      ...p,
+      songs: [...p.songs, ...newSongs],
+      addedBy: { ...p.addedBy, ...Object.fromEntries(newSongs.map((song) => [song.id, user?.id ?? null])) },
+    }));
+    toast({
+      title: `Added to ${playlist.name}`,
+      description: newSongs.length === 1 ? newSongs[0].title : `${newSongs.length} songs`,
+    });
+  }, [user, toast]);
+
+  const createPlaylist = useCallback(async (details: PlaylistDetails, songs: Song[] = []) => {
+    if (!user) {
+      toast({ title: "Sign In Required", description: "Please sign in to create playlists", variant: "destructive" });
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from("playlists")
+      .insert({ ...toPlaylistRow(details), name: details.name, user_id: user.id })
+      .select()
+      .single();
+
+    if (error) {
+      toast({ title: "Error creating playlist", description: error.message, variant: "destructive" });
+      return null;
+    }
+
+    const playlist = toPlaylist(data);
+    playlistsRef.current = [playlist, ...playlistsRef.current];
+    setPlaylists(playlistsRef.current);
+    if (playlist.rules) {
+      await refreshSmartPlaylist(playlist.id);
+      toast({ title: "Success", description: "Smart playlist created successfully!" });
+    } else if (songs.length > 0) {
+      await addToPlaylist(playlist.id, songs);
+    } else {
+      toast({ title: "Success", description: "Playlist created successfully!" });
+    }
+    return playlist;
+  }, [user, toast, addToPlaylist, refreshSmartPlaylist]);
+
+  const updatePlaylist = useCallback(async (playlistId: string, changes: Partial<PlaylistDetails>) => {
+    const { error } = await supabase.from("playlists").update(toPlaylistRow(changes)).eq("id", playlistId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    // The ref is updated right away so a rules refresh sees the new rules
+    playlistsRef.current = playlistsRef.current.map((p) => (p.id === playlistId ? { ...p, ...changes } : p));
+    setPlaylists(playlistsRef.current);
+    if (changes.rules) {
+      await refreshSmartPlaylist(playlistId);
+    }
+  }, [toast, refreshSmartPlaylist]);
+
+  const deletePlaylist = useCallback(async (playlistId: string) => {
+    const { error } = await supabase.from("playlists").delete().eq("id", playlistId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    setPlaylists((prev) => prev.filter((p) => p.id !== playlistId));
+    toast({ title: "Success", description: "Playlist deleted successfully!" });
+  }, [toast]);
+
+  const removeFromPlaylist = useCallback(async (playlistId: string, songId: string) => {
+    const { error } = await supabase
+      .from("playlist_songs")
+      .delete()
+      .eq("playlist_id", playlistId)
+      .eq("song_id", songId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    updateLocal(playlistId, (p) => ({ ...p, songs: p.songs.filter((song) => song.id !== songId) }));
+  }, [toast]);
+
+  // Reorders straight away, then rewrites every position in one upsert
+  const reorderPlaylist = useCallback(async (playlistId: string, from: number, to: number) => {
+    const playlist = playlistsRef.current.find((p) => p.id === playlistId);
+    if (!playlist) return;
+
+    const songs = moveItem(playlist.songs, from, to);
+    if (songs === playlist.songs) return;
+    updateLocal(playlistId, (p) => ({ ...p, songs }));
+
+    const { error } = await supabase.from("playlist_songs").upsert(
+      songs.map((song, position) => ({ playlist_id: playlistId, song_id: song.id, position })),
+      { onConflict: "playlist_id,song_id" }
+    );
+
+    if (error) {
+      toast({ title: "Error saving order", description: error.message, variant: "destructive" });
+      reloadPlaylists();
+    }
+  }, [toast, reloadPlaylists]);
+
+  const inviteCollaborator = useCallback(async (playlistId: string, email: string) => {
+    const { data, error } = await supabase.rpc("invite_playlist_collaborator", {
+      _playlist_id: playlistId,
+      _email: email,
+    });
+
+    if (error) {
+      toast({ title: "Couldn't invite collaborator", description: error.message, variant: "destructive" });
+      return false;
+    }
+    updateLocal(playlistId, (p) => ({
+      ...p,
+      collaborators: p.collaborators.includes(data) ? p.collaborators : [...p.collaborators, data],
+    }));
+    toast({ title: "Collaborator added", description: email });
+    return true;
+  }, [toast]);
+
+  const removeCollaborator = useCallback(async (playlistId: string, userId: string) => {
+    const { error } = await supabase
+      .from("playlist_collaborators")
+      .delete()
+      .eq("playlist_id", playlistId)
+      .eq("user_id", userId);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return;
+    }
+    if (userId === user?.id) {
+      setPlaylists((prev) => prev.filter((p) => p.id !== playlistId));
+    } else {
+      updateLocal(playlistId, (p) => ({ ...p, collaborators: p.collaborators.filter((id) => id !== userId) }));
+    }
+  }, [user, toast]);
+
+  const value = {
+    playlists,
+    loading,
+    reloadPlaylists,
+    createPlaylist,
+    updatePlaylist,
+    deletePlaylist,
+    addToPlaylist,
+    removeFromPlaylist,
+    reorderPlaylist,
+    loadSmartContext,
+    refreshSmartPlaylist,
+    inviteCollaborator,
+    removeCollaborator,
+  };
+
+  return <PlaylistsContext.Provider value={value}>{children}</PlaylistsContext.Provider>;
+};
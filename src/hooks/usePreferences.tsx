@@ -0,0 +1,128 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { EqPreset, FLAT_GAINS } from "@/lib/equalizer";
+import { NormalizationMode } from "@/lib/loudness";
+import { Keybindings } from "@/lib/shortcuts";
+
+export interface Preferences {
+  crossfade_seconds: number;
+  eq_enabled: boolean;
+  eq_preset: string;
+  eq_gains: number[];
+  eq_custom_presets: EqPreset[];
+  normalize_volume: boolean;
+  normalization_mode: NormalizationMode;
+  keybindings: Partial<Keybindings>;
+  history_paused: boolean;
+}
+
+interface PreferencesContextType {
+  preferences: Preferences;
+  updatePreferences: (changes: Partial<Preferences>) => Promise<void>;
+  // Applies changes without saving them, e.g. while a slider is being dragged
+  previewPreferences: (changes: Partial<Preferences>) => void;
+}
+
+const PREFERENCES_STORAGE_KEY = "mjplayer-preferences";
+
+export const defaultPreferences: Preferences = {
+  crossfade_seconds: 0,
+  eq_enabled: false,
+  eq_preset: "Flat",
+  eq_gains: FLAT_GAINS,
+  eq_custom_presets: [],
+  normalize_volume: false,
+  normalization_mode: "track",
+  keybindings: {},
+  history_paused: false,
+};
+
+// Only keep known preference columns from a stored object or database row
+const pickPreferences = (source: Record<string, unknown> | null | undefined): Partial<Preferences> => {
+  if (!source) return {};
+  const picked: Partial<Preferences> = {};
+  (Object.keys(defaultPreferences) as (keyof Preferences)[]).forEach((key) => {
+    if (source[key] !== undefined && source[key] !== null) {
+      (picked as Record<string, unknown>)[key] = source[key];
+    }
+  });
+  return picked;
+};
+
+const loadLocalPreferences = (): Preferences => {
+  try {
+    const saved = localStorage.getItem(PREFERENCES_STORAGE_KEY);
+    if (saved) return { ...defaultPreferences, ...pickPreferences(JSON.parse(saved)) };
+  } catch (error) {
+    console.error("Error reading preferences:", error);
+  }
+  return defaultPreferences;
+};
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error("usePreferences must be used within a PreferencesProvider");
+  }
+  return context;
+};
+
+export const PreferencesProvider = ({ children }: { children: React.ReactNode }) => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [preferences, setPreferences] = useState<Preferences>(loadLocalPreferences);
+
+  // Signed-in users get their saved preferences; guests keep the local copy
+  useEffect(() => {
+    if (!user) return;
+
+    const loadPreferences = async () => {
+      const { data, error } = await supabase
+        .from("user_preferences")
+        .select("*")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Error loading preferences:", error);
+      } else if (data) {
+        setPreferences((prev) => ({ ...prev, ...pickPreferences(data) }));
+      }
+    };
+
+    loadPreferences();
+  }, [user]);
+
+  useEffect(() => {
+    localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  const updatePreferences = useCallback(async (changes: Partial<Preferences>) => {
+    setPreferences((prev) => ({ ...prev, ...changes }));
+    if (!user) return;
+
+    const { error } = await supabase
+      .from("user_preferences")
+      .upsert({ user_id: user.id, ...changes }, { onConflict: "user_id" });
+
+    if (error) {
+      toast({ title: "Error saving preferences", description: error.message, variant: "destructive" });
+    }
+  }, [user, toast]);
+
+  const previewPreferences = useCallback((changes: Partial<Preferences>) => {
+    setPreferences((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  const value = {
+    preferences,
+    updatePreferences,
+    previewPreferences,
+  };
+
+  return <PreferencesContext.Provider value={value}>{children}</PreferencesContext.Provider>;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+const FALLBACK_NAME = "MJ Player user";
+
+// Display names are shared by every component on the page
+const nameCache = new Map<string, string>();
+
+// Looks up display names for user ids, e.g. for "added by" attribution
+export const useProfileNames = (userIds: (string | null | undefined)[]) => {
+  const [names, setNames] = useState<Record<string, string>>({});
+  const key = [...new Set(userIds.filter(Boolean))].sort().join(",");
+
+  useEffect(() => {
+    const ids = key ? key.split(",") : [];
+    const publish = () => setNames(Object.fromEntries(ids.map((id) => [id, nameCache.get(id) || FALLBACK_NAME])));
+
+    const missing = ids.filter((id) => !nameCache.has(id));
+    if (missing.length === 0) {
+      publish();
+      return;
+    }
+
+    let cancelled = false;
+    const loadNames = async () => {
+      const { data, error } = await supabase.from("profiles").select("user_id, full_name").in("user_id", missing);
+
+      if (error) {
+        console.error("Error loading profiles:", error);
+      } else {
+        missing.forEach((id) => nameCache.set(id, FALLBACK_NAME));
+        (data || []).forEach((profile) => nameCache.set(profile.user_id, profile.full_name || FALLBACK_NAME));
+      }
+      if (!cancelled) publish();
+    };
+
+    loadNames();
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return names;
+};
@@ -0,0 +1,97 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useLikes } from "@/hooks/useLikes";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useToast } from "@/hooks/use-toast";
+import { Song } from "@/lib/player";
+import { pickRadioSongs, RADIO_BATCH_SIZE, RADIO_REFILL_THRESHOLD, RadioStation, radioWeight } from "@/lib/radio";
+
+interface RadioContextType {
+  station: RadioStation | null;
+  startRadio: (station: RadioStation) => Promise<void>;
+  stopRadio: () => void;
+}
+
+const RadioContext = createContext<RadioContextType | undefined>(undefined);
+
+export const useRadio = () => {
+  const context = useContext(RadioContext);
+  if (context === undefined) {
+    throw new Error("useRadio must be used within a RadioProvider");
+  }
+  return context;
+};
+
+export const RadioProvider = ({ children }: { children: React.ReactNode }) => {
+  const { queue, currentIndex, loadQueue, addToQueue } = usePlayer();
+  const { isLiked } = useLikes();
+  const { toast } = useToast();
+  const [station, setStation] = useState<RadioStation | null>(null);
+  // The category's songs and their like counts, loaded when the radio starts
+  const poolRef = useRef<Song[]>([]);
+  const likeCountsRef = useRef<Map<string, number>>(new Map());
+  const isLikedRef = useRef(isLiked);
+  isLikedRef.current = isLiked;
+
+  const weightOf = useCallback(
+    (song: Song) => radioWeight(likeCountsRef.current.get(song.id) || 0, isLikedRef.current(song.id)),
+    []
+  );
+
+  const startRadio = useCallback(async (next: RadioStation) => {
+    try {
+      const { data, error } = await supabase.from("songs").select("*").eq("category_id", next.categoryId);
+      if (error) throw error;
+
+      const songs = data || [];
+      if (songs.length === 0) {
+        toast({ title: "Nothing to play", description: `${next.name} has no songs yet` });
+        return;
+      }
+
+      const { data: counts, error: countsError } = await supabase.rpc("get_public_song_like_counts", {
+        _song_ids: songs.map((song) => song.id),
+      });
+      if (countsError) {
+        console.error("Error loading like counts:", countsError);
+      }
+
+      poolRef.current = songs;
+      likeCountsRef.current = new Map((counts || []).map((row) => [row.song_id, Number(row.likes)]));
+      setStation(next);
+      loadQueue(pickRadioSongs(songs, weightOf, [], RADIO_BATCH_SIZE), 0, true, "radio");
+    } catch (error) {
+      console.error("Error starting radio:", error);
+      toast({ title: "Couldn't start radio", description: error.message, variant: "destructive" });
+    }
+  }, [loadQueue, weightOf, toast]);
+
+  const stopRadio = useCallback(() => {
+    setStation(null);
+    poolRef.current = [];
+  }, []);
+
+  // Keep the queue topped up; loading anything else replaces the radio songs and ends it
+  useEffect(() => {
+    if (!station) return;
+
+    if (!queue.some((item) => item.source === "radio")) {
+      stopRadio();
+      return;
+    }
+
+    const upcoming = queue.slice(currentIndex + 1).filter((item) => item.source === "radio").length;
+    if (upcoming > RADIO_REFILL_THRESHOLD) return;
+
+    const recentIds = queue.filter((item) => item.source === "radio").map((item) => item.id);
+    addToQueue(pickRadioSongs(poolRef.current, weightOf, recentIds, RADIO_BATCH_SIZE), "radio");
+  }, [station, queue, currentIndex, addToQueue, weightOf, stopRadio]);
+
+  const value = {
+    station,
+    startRadio,
+    stopRadio,
+  };
+
+  return <RadioContext.Provider value={value}>{children}</RadioContext.Provider>;
+};
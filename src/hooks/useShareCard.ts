@@ -0,0 +1,44 @@
+import { useCallback } from "react";
+import { useToast } from "@/hooks/use-toast";
+import { generateArtwork, playlistArtwork, songArtwork } from "@/lib/artwork";
+import { Song } from "@/lib/player";
+import { shareCard, ShareCardContent } from "@/lib/shareCard";
+
+// Shares songs and playlists as image cards showing their artwork
+export const useShareCard = () => {
+  const { toast } = useToast();
+
+  const share = useCallback(async (content: ShareCardContent) => {
+    try {
+      const result = await shareCard(content);
+      if (result === "downloaded") {
+        toast({ title: "Share card saved", description: "Post the image anywhere to share it" });
+      }
+    } catch (error) {
+      // Closing the share sheet rejects too
+      if (error.name === "AbortError") return;
+      console.error("Error sharing:", error);
+      toast({ title: "Couldn't share", description: error.message, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const shareSong = useCallback((song: Song) => share({
+    label: "Song",
+    title: song.title,
+    subtitle: song.artist,
+    artworkUrl: songArtwork(song),
+    fallbackArtworkUrl: generateArtwork(song.title, song.artist),
+    url: `${window.location.origin}/search?q=${encodeURIComponent(song.title)}`,
+  }), [share]);
+
+  const sharePlaylist = useCallback((playlist: { id: string; name: string; description?: string | null; artwork_url?: string | null }) => share({
+    label: "Playlist",
+    title: playlist.name,
+    subtitle: playlist.description,
+    artworkUrl: playlistArtwork(playlist),
+    fallbackArtworkUrl: generateArtwork(playlist.name),
+    url: `${window.location.origin}/playlist/${playlist.id}`,
+  }), [share]);
+
+  return { shareSong, sharePlaylist };
+};
@@ -0,0 +1,75 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useToast } from "@/hooks/use-toast";
+import { SleepTimer } from "@/lib/sleepTimer";
+
+interface SleepTimerContextType {
+  timer: SleepTimer | null;
+  // Seconds until a timed stop, for countdowns
+  remaining: number | null;
+  startSleepTimer: (minutes: number) => void;
+  sleepAtEndOfSong: () => void;
+  cancelSleepTimer: () => void;
+}
+
+const SleepTimerContext = createContext<SleepTimerContextType | undefined>(undefined);
+
+export const useSleepTimer = () => {
+  const context = useContext(SleepTimerContext);
+  if (context === undefined) {
+    throw new Error("useSleepTimer must be used within a SleepTimerProvider");
+  }
+  return context;
+};
+
+export const SleepTimerProvider = ({ children }: { children: React.ReactNode }) => {
+  const { currentSong, status, pause } = usePlayer();
+  const { toast } = useToast();
+  const [timer, setTimer] = useState<SleepTimer | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+
+  const fire = useCallback(() => {
+    setTimer(null);
+    pause();
+    toast({ title: "Sleep timer", description: "Playback paused" });
+  }, [pause, toast]);
+
+  // Timed stops tick once a second so countdowns stay current
+  useEffect(() => {
+    if (timer?.kind !== "time") return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  useEffect(() => {
+    if (timer?.kind === "time" && now >= timer.endsAt) fire();
+  }, [timer, now, fire]);
+
+  // End of song: stop as soon as the player moves on, or when the queue runs out
+  useEffect(() => {
+    if (timer?.kind !== "endOfSong") return;
+    if (currentSong?.queueId !== timer.queueId || status === "ended") fire();
+  }, [timer, currentSong, status, fire]);
+
+  const startSleepTimer = useCallback((minutes: number) => {
+    setNow(Date.now());
+    setTimer({ kind: "time", endsAt: Date.now() + minutes * 60 * 1000 });
+  }, []);
+
+  const sleepAtEndOfSong = useCallback(() => {
+    if (!currentSong) return;
+    setTimer({ kind: "endOfSong", queueId: currentSong.queueId });
+  }, [currentSong]);
+
+  const cancelSleepTimer = useCallback(() => setTimer(null), []);
+
+  const value = {
+    timer,
+    remaining: timer?.kind === "time" ? Math.max(0, Math.ceil((timer.endsAt - now) / 1000)) : null,
+    startSleepTimer,
+    sleepAtEndOfSong,
+    cancelSleepTimer,
+  };
+
+  return <SleepTimerContext.Provider value={value}>{children}</SleepTimerContext.Provider>;
+};
@@ -14,6 +14,65 @@ export type Database = {
   }
   public: {
     Tables: {
+      albums: {
+        Row: {
+          artist_id: string | null
+          created_at: string
+          id: string
+          release_year: number | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          artist_id?: string | null
+          created_at?: string
+          id?: string
+          release_year?: number | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          artist_id?: string | null
+          created_at?: string
+          id?: string
+          release_year?: number | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "albums_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      artists: {
+        Row: {
+          bio: string | null
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       categories: {
         Row: {
           created_at: string
@@ -38,9 +97,152 @@ export type Database = {
         }
         Relationships: []
       }
+      listening_history: {
+        Row: {
+          completed: boolean
+          id: string
+          seconds_listened: number
+          song_id: string
+          source: string | null
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          id?: string
+          seconds_listened?: number
+          song_id: string
+          source?: string | null
+          started_at?: string
+          user_id: string
+        }
+        Update: {
+          completed?: boolean
+          id?: string
+          seconds_listened?: number
+          song_id?: string
+          source?: string | null
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "listening_history_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      party_rooms: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          ended_at: string | null
+          host_id: string
+          id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          host_id: string
+          id?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          ended_at?: string | null
+          host_id?: string
+          id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      playback_sessions: {
+        Row: {
+          created_at: string
+          current_index: number
+          device_id: string
+          device_name: string
+          id: string
+          original_order: Json | null
+          position: number
+          queue: Json
+          repeat_mode: string
+          updated_at: string
+          user_id: string
+          volume: number
+        }
+        Insert: {
+          created_at?: string
+          current_index?: number
+          device_id: string
+          device_name: string
+          id?: string
+          original_order?: Json | null
+          position?: number
+          queue?: Json
+          repeat_mode?: string
+          updated_at?: string
+          user_id: string
+          volume?: number
+        }
+        Update: {
+          created_at?: string
+          current_index?: number
+          device_id?: string
+          device_name?: string
+          id?: string
+          original_order?: Json | null
+          position?: number
+          queue?: Json
+          repeat_mode?: string
+          updated_at?: string
+          user_id?: string
+          volume?: number
+        }
+        Relationships: []
+      }
+      playlist_collaborators: {
+        Row: {
+          created_at: string
+          id: string
+          invited_by: string | null
+          playlist_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          playlist_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          invited_by?: string | null
+          playlist_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "playlist_collaborators_playlist_id_fkey"
+            columns: ["playlist_id"]
+            isOneToOne: false
+            referencedRelation: "playlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       playlist_songs: {
         Row: {
           added_at: string
+          added_by: string | null
           id: string
           playlist_id: string
           position: number
@@ -48,6 +250,7 @@ export type Database = {
         }
         Insert: {
           added_at?: string
+          added_by?: string | null
           id?: string
           playlist_id: string
           position?: number
@@ -55,6 +258,7 @@ export type Database = {
         }
         Update: {
           added_at?: string
+          added_by?: string | null
           id?: string
           playlist_id?: string
           position?: number
@@ -79,29 +283,38 @@ export type Database = {
       }
       playlists: {
         Row: {
+          artwork_url: string | null
           created_at: string
           description: string | null
           id: string
           is_public: boolean | null
           name: string
+          rules: Json | null
+          rules_refreshed_at: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          artwork_url?: string | null
           created_at?: string
           description?: string | null
           id?: string
           is_public?: boolean | null
           name: string
+          rules?: Json | null
+          rules_refreshed_at?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          artwork_url?: string | null
           created_at?: string
           description?: string | null
           id?: string
           is_public?: boolean | null
           name?: string
+          rules?: Json | null
+          rules_refreshed_at?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -134,44 +347,184 @@ export type Database = {
         }
         Relationships: []
       }
+      song_credits: {
+        Row: {
+          artist_id: string
+          created_at: string
+          id: string
+          position: number
+          role: Database["public"]["Enums"]["credit_role"]
+          song_id: string
+        }
+        Insert: {
+          artist_id: string
+          created_at?: string
+          id?: string
+          position?: number
+          role?: Database["public"]["Enums"]["credit_role"]
+          song_id: string
+        }
+        Update: {
+          artist_id?: string
+          created_at?: string
+          id?: string
+          position?: number
+          role?: Database["public"]["Enums"]["credit_role"]
+          song_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "song_credits_artist_id_fkey"
+            columns: ["artist_id"]
+            isOneToOne: false
+            referencedRelation: "artists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "song_credits_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      song_likes: {
+        Row: {
+          created_at: string
+          id: string
+          song_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          song_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          song_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "song_likes_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      song_plays: {
+        Row: {
+          id: string
+          listen_through: number | null
+          listener_key: string
+          played_at: string
+          seconds_listened: number
+          song_id: string
+          user_id: string | null
+        }
+        Insert: {
+          id?: string
+          listen_through?: number | null
+          listener_key: string
+          played_at?: string
+          seconds_listened: number
+          song_id: string
+          user_id?: string | null
+        }
+        Update: {
+          id?: string
+          listen_through?: number | null
+          listener_key?: string
+          played_at?: string
+          seconds_listened?: number
+          song_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "song_plays_song_id_fkey"
+            columns: ["song_id"]
+            isOneToOne: false
+            referencedRelation: "songs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       songs: {
         Row: {
+          album_id: string | null
           artist: string | null
+          artwork_url: string | null
           category_id: string | null
           created_at: string
           duration: number | null
           id: string
           is_public: boolean | null
+          loudness_analyzed_at: string | null
+          loudness_lufs: number | null
+          replaygain_album_gain: number | null
+          replaygain_track_gain: number | null
+          search_vector: unknown | null
           title: string
+          track_number: number | null
           updated_at: string
           uploaded_by: string | null
           url: string
         }
         Insert: {
+          album_id?: string | null
           artist?: string | null
+          artwork_url?: string | null
           category_id?: string | null
           created_at?: string
           duration?: number | null
           id?: string
           is_public?: boolean | null
+          loudness_analyzed_at?: string | null
+          loudness_lufs?: number | null
+          replaygain_album_gain?: number | null
+          replaygain_track_gain?: number | null
+          search_vector?: unknown | null
           title: string
+          track_number?: number | null
           updated_at?: string
           uploaded_by?: string | null
           url: string
         }
         Update: {
+          album_id?: string | null
           artist?: string | null
+          artwork_url?: string | null
           category_id?: string | null
           created_at?: string
           duration?: number | null
           id?: string
           is_public?: boolean | null
+          loudness_analyzed_at?: string | null
+          loudness_lufs?: number | null
+          replaygain_album_gain?: number | null
+          replaygain_track_gain?: number | null
+          search_vector?: unknown | null
           title?: string
+          track_number?: number | null
           updated_at?: string
           uploaded_by?: string | null
           url?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "songs_album_id_fkey"
+            columns: ["album_id"]
+            isOneToOne: false
+            referencedRelation: "albums"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "songs_category_id_fkey"
             columns: ["category_id"]
@@ -181,6 +534,54 @@ export type Database = {
           },
         ]
       }
+      user_preferences: {
+        Row: {
+          created_at: string
+          crossfade_seconds: number
+          eq_custom_presets: Json
+          eq_enabled: boolean
+          eq_gains: Json
+          eq_preset: string
+          history_paused: boolean
+          id: string
+          keybindings: Json
+          normalization_mode: string
+          normalize_volume: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          crossfade_seconds?: number
+          eq_custom_presets?: Json
+          eq_enabled?: boolean
+          eq_gains?: Json
+          eq_preset?: string
+          history_paused?: boolean
+          id?: string
+          keybindings?: Json
+          normalization_mode?: string
+          normalize_volume?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          crossfade_seconds?: number
+          eq_custom_presets?: Json
+          eq_enabled?: boolean
+          eq_gains?: Json
+          eq_preset?: string
+          history_paused?: boolean
+          id?: string
+          keybindings?: Json
+          normalization_mode?: string
+          normalize_volume?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           created_at: string
@@ -207,6 +608,58 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_edit_playlist: {
+        Args: {
+          _playlist_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      ensure_artist: {
+        Args: {
+          _name: string
+        }
+        Returns: string
+      }
+      get_public_song_like_counts: {
+        Args: {
+          _song_ids: string[]
+        }
+        Returns: {
+          song_id: string
+          likes: number
+        }[]
+      }
+      get_song_like_counts: {
+        Args: {
+          _song_ids: string[]
+        }
+        Returns: {
+          song_id: string
+          likes: number
+        }[]
+      }
+      get_song_play_trend: {
+        Args: {
+          _song_id: string
+          _days?: number
+        }
+        Returns: {
+          day: string
+          plays: number
+        }[]
+      }
+      get_song_stats: {
+        Args: {
+          _song_ids: string[]
+        }
+        Returns: {
+          song_id: string
+          total_plays: number
+          unique_listeners: number
+          avg_listen_through: number
+        }[]
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -214,9 +667,88 @@ export type Database = {
         }
         Returns: boolean
       }
+      invite_playlist_collaborator: {
+        Args: {
+          _playlist_id: string
+          _email: string
+        }
+        Returns: string
+      }
+      is_playlist_owner: {
+        Args: {
+          _playlist_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      merge_artists: {
+        Args: {
+          _target_id: string
+          _source_ids: string[]
+        }
+        Returns: undefined
+      }
+      record_play: {
+        Args: {
+          _song_id: string
+          _seconds_listened: number
+        }
+        Returns: boolean
+      }
+      refresh_album_gain: {
+        Args: {
+          _album_id: string
+        }
+        Returns: undefined
+      }
+      refresh_smart_playlist: {
+        Args: {
+          _playlist_id: string
+          _song_ids: string[]
+        }
+        Returns: string
+      }
+      search_library: {
+        Args: {
+          _query: string
+          _limit?: number
+        }
+        Returns: {
+          kind: string
+          id: string | null
+          title: string
+          subtitle: string | null
+          rank: number
+        }[]
+      }
+      song_artist_display: {
+        Args: {
+          _song_id: string
+        }
+        Returns: string
+      }
+      song_search_vector: {
+        Args: {
+          _title: string
+          _artist: string
+          _category_id: string
+        }
+        Returns: unknown
+      }
+      split_artist_credits: {
+        Args: {
+          _artist: string
+        }
+        Returns: {
+          name: string
+          role: Database["public"]["Enums"]["credit_role"]
+          position: number
+        }[]
+      }
     }
     Enums: {
       app_role: "admin" | "user"
+      credit_role: "primary" | "featured" | "composer" | "lyricist"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -345,6 +877,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      credit_role: ["primary", "featured", "composer", "lyricist"],
     },
   },
 } as const
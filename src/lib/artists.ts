@@ -0,0 +1,27 @@
+import { Database } from "@/integrations/supabase/types";
+import { normalizeSearchText } from "@/lib/search";
+
+export type CreditRole = Database["public"]["Enums"]["credit_role"];
+
+// Credit sections in the order artist pages show them
+export const creditRoleLabels: Record<CreditRole, string> = {
+  primary: "Songs",
+  featured: "Featured on",
+  composer: "Composed",
+  lyricist: "Lyrics by",
+};
+
+// Key used to spot likely duplicates the database's case-insensitive match misses,
+// e.g. "A.R. Rahman" and "AR Rahman"
+export const artistMatchKey = (name: string) =>
+  normalizeSearchText(name).replace(/^the /, "").replace(/ /g, "");
+
+// Groups of two or more artists sharing a match key
+export const findDuplicateArtists = <T extends { name: string }>(artists: T[]): T[][] => {
+  const byKey = new Map<string, T[]>();
+  artists.forEach((artist) => {
+    const key = artistMatchKey(artist.name);
+    if (key) byKey.set(key, [...(byKey.get(key) || []), artist]);
+  });
+  return [...byKey.values()].filter((group) => group.length > 1);
+};
@@ -0,0 +1,253 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Song } from "@/lib/player";
+
+export const ARTWORK_BUCKET = "artwork";
+
+// Matches the bucket's limits
+export const ARTWORK_MAX_BYTES = 5 * 1024 * 1024;
+export const ARTWORK_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const GENERATED_SIZE = 512;
+
+// Generated art is drawn once per title and kept for the session
+const generatedCache = new Map<string, string>();
+
+// FNV-1a, so the same title always gets the same colors
+const hashText = (text: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const initialsOf = (title: string) =>
+  title
+    .trim()
+    .split(/\s+/)
+    .slice(0, 2)
+    .map((word) => [...word][0] || "")
+    .join("")
+    .toUpperCase();
+
+// A gradient in colors derived from the title, with its initials on top
+export const generateArtwork = (title: string, subtitle?: string | null) => {
+  const key = `${title}\n${subtitle || ""}`;
+  const cached = generatedCache.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = GENERATED_SIZE;
+  canvas.height = GENERATED_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return "";
+
+  const hash = hashText(key);
+  const hue = hash % 360;
+  const accent = (hue + 30 + ((hash >>> 9) % 120)) % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, GENERATED_SIZE, GENERATED_SIZE);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 45%)`);
+  gradient.addColorStop(1, `hsl(${accent}, 75%, 22%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, GENERATED_SIZE, GENERATED_SIZE);
+
+  // Soft circles placed by the hash, so titles with the same colors still look different
+  for (let i = 0; i < 3; i++) {
+    const bits = hash >>> (i * 7);
+    ctx.beginPath();
+    ctx.arc(
+      ((bits & 0xff) / 255) * GENERATED_SIZE,
+      (((bits >>> 8) & 0xff) / 255) * GENERATED_SIZE,
+      GENERATED_SIZE * (0.2 + i * 0.15),
+      0,
+      Math.PI * 2
+    );
+    ctx.fillStyle = `hsla(${(accent + i * 50) % 360}, 80%, 70%, 0.18)`;
+    ctx.fill();
+  }
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.9)";
+  ctx.font = `bold ${GENERATED_SIZE * 0.32}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(initialsOf(title) || "♪", GENERATED_SIZE / 2, GENERATED_SIZE / 2);
+
+  const url = canvas.toDataURL("image/png");
+  generatedCache.set(key, url);
+  return url;
+};
+
+export const songArtwork = (song: Pick<Song, "title" | "artist" | "artwork_url">) =>
+  song.artwork_url || generateArtwork(song.title, song.artist);
+
+export const playlistArtwork = (playlist: { name: string; artwork_url?: string | null }) =>
+  playlist.artwork_url || generateArtwork(playlist.name);
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const uint32 = (bytes: Uint8Array, offset: number) =>
+  ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+
+// ID3v2.4 sizes use 7 bits per byte
+const syncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) | (bytes[offset + 1] << 14) | (bytes[offset + 2] << 7) | bytes[offset + 3];
+
+// Image formats are recognised by their magic bytes; tag mime types are often wrong
+const sniffImageType = (data: Uint8Array) => {
+  if (data[0] === 0xff && data[1] === 0xd8) return "image/jpeg";
+  if (ascii(data, 1, 3) === "PNG") return "image/png";
+  if (ascii(data, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(data, 0, 4) === "RIFF" && ascii(data, 8, 4) === "WEBP") return "image/webp";
+  return null;
+};
+
+// APIC (v2.3/2.4) or PIC (v2.2): encoding, mime type or format, picture type, description, image
+const readPictureFrame = (body: Uint8Array, legacy: boolean) => {
+  const encoding = body[0];
+  let offset = legacy ? 4 : body.indexOf(0, 1) + 1;
+  if (offset === 0) return null;
+  offset++;
+
+  // The description ends with one zero byte, or two for the UTF-16 encodings
+  if (encoding === 1 || encoding === 2) {
+    while (offset + 1 < body.length && (body[offset] !== 0 || body[offset + 1] !== 0)) offset += 2;
+    offset += 2;
+  } else {
+    while (offset < body.length && body[offset] !== 0) offset++;
+    offset++;
+  }
+  return body.subarray(offset);
+};
+
+const readId3Picture = (bytes: Uint8Array) => {
+  const version = bytes[3];
+  const flags = bytes[5];
+  // Unsynchronised tags are rare enough not to be worth decoding
+  if (version < 2 || version > 4 || flags & 0x80) return null;
+
+  const end = Math.min(10 + syncsafe(bytes, 6), bytes.length);
+  let offset = 10;
+  if (flags & 0x40) {
+    offset += version === 4 ? syncsafe(bytes, 10) : uint32(bytes, 10) + 4;
+  }
+
+  const legacy = version === 2;
+  const headerLength = legacy ? 6 : 10;
+  while (offset + headerLength <= end) {
+    const id = ascii(bytes, offset, legacy ? 3 : 4);
+    // Padding fills the rest of the tag
+    if (!/^[A-Z0-9]+$/.test(id)) break;
+
+    const size = legacy
+      ? (bytes[offset + 3] << 16) | (bytes[offset + 4] << 8) | bytes[offset + 5]
+      : version === 4
+        ? syncsafe(bytes, offset + 4)
+        : uint32(bytes, offset + 4);
+    if (id === "APIC" || id === "PIC") {
+      return readPictureFrame(bytes.subarray(offset + headerLength, Math.min(offset + headerLength + size, end)), legacy);
+    }
+    offset += headerLength + size;
+  }
+  return null;
+};
+
+// iTunes-style cover: moov > udta > meta > ilst > covr > data
+const readMp4Cover = (bytes: Uint8Array) => {
+  const findBox = (start: number, end: number, path: string[]): Uint8Array | null => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = uint32(bytes, offset);
+      let header = 8;
+      if (size === 1) {
+        size = uint32(bytes, offset + 8) * 2 ** 32 + uint32(bytes, offset + 12);
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header) return null;
+
+      const boxEnd = Math.min(offset + size, end);
+      if (ascii(bytes, offset + 4, 4) === path[0]) {
+        // meta is a full box, with version and flags before its children
+        const contentStart = offset + header + (path[0] === "meta" ? 4 : 0);
+        if (path.length > 1) return findBox(contentStart, boxEnd, path.slice(1));
+        // A data box holds a type and a locale before the value
+        return bytes.subarray(contentStart + 8, boxEnd);
+      }
+      offset += size;
+    }
+    return null;
+  };
+
+  return findBox(0, bytes.length, ["moov", "udta", "meta", "ilst", "covr", "data"]);
+};
+
+// The cover embedded in an MP3's ID3 tag or an MP4/M4A's metadata, if any
+export const readEmbeddedArtwork = (buffer: ArrayBuffer): Blob | null => {
+  const bytes = new Uint8Array(buffer);
+  let data: Uint8Array | null = null;
+  if (ascii(bytes, 0, 3) === "ID3") {
+    data = readId3Picture(bytes);
+  } else if (ascii(bytes, 4, 4) === "ftyp") {
+    data = readMp4Cover(bytes);
+  }
+
+  const type = data && data.length > 0 ? sniffImageType(data) : null;
+  return type ? new Blob([data], { type }) : null;
+};
+
+// Downloads a song and reads its embedded cover. MP4 covers can sit after
+// the audio, so the whole file is needed.
+export const extractArtwork = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download song (${response.status})`);
+  }
+  return readEmbeddedArtwork(await response.arrayBuffer());
+};
+
+// Throws when an image can't be used as artwork
+export const validateArtwork = (image: Blob) => {
+  if (!ARTWORK_TYPES.includes(image.type)) {
+    throw new Error("Artwork must be a JPEG, PNG, WebP or GIF image");
+  }
+  if (image.size > ARTWORK_MAX_BYTES) {
+    throw new Error("Artwork must be 5 MB or smaller");
+  }
+};
+
+// Stores an image in the user's artwork folder and returns its public URL
+export const uploadArtwork = async (userId: string, image: Blob) => {
+  validateArtwork(image);
+
+  const extension = image.type === "image/jpeg" ? "jpg" : image.type.split("/")[1];
+  const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+  const { error } = await supabase.storage
+    .from(ARTWORK_BUCKET)
+    .upload(path, image, { contentType: image.type, cacheControl: "31536000" });
+  if (error) throw error;
+
+  return supabase.storage.from(ARTWORK_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+// Uploads an image and sets it as a song's artwork. The upload is removed
+// again if the song can't be updated, so it isn't left behind.
+export const saveSongArtwork = async (userId: string, songId: string, image: Blob) => {
+  const artworkUrl = await uploadArtwork(userId, image);
+  const { error } = await supabase.from("songs").update({ artwork_url: artworkUrl }).eq("id", songId);
+  if (error) {
+    const path = artworkUrl.slice(artworkUrl.indexOf(`/${ARTWORK_BUCKET}/`) + ARTWORK_BUCKET.length + 2);
+    await supabase.storage.from(ARTWORK_BUCKET).remove([path]);
+    throw error;
+  }
+  return artworkUrl;
+};
+
+// Makes a song's embedded cover its artwork. Returns the new URL, or null when it has none.
+export const saveEmbeddedArtwork = async (userId: string, song: Pick<Song, "id" | "url">) => {
+  const image = await extractArtwork(song.url);
+  return image ? saveSongArtwork(userId, song.id, image) : null;
+};
@@ -0,0 +1,23 @@
+const RECENT_COMMANDS_STORAGE_KEY = "mjplayer-recent-commands";
+
+export const RECENT_COMMANDS_LIMIT = 5;
+
+// Ids of the palette commands run most recently, newest first
+export const loadRecentCommands = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_COMMANDS_STORAGE_KEY) || "[]");
+    return Array.isArray(saved) ? saved.filter((id) => typeof id === "string") : [];
+  } catch (error) {
+    console.error("Error loading recent commands:", error);
+    return [];
+  }
+};
+
+export const rememberCommand = (recent: string[], id: string) => {
+  const next = [id, ...recent.filter((existing) => existing !== id)].slice(0, RECENT_COMMANDS_LIMIT);
+  localStorage.setItem(RECENT_COMMANDS_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+// "⌘K" on Apple devices, "Ctrl+K" elsewhere
+export const paletteShortcutLabel = () => (/Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl+K");
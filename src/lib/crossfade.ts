@@ -0,0 +1,32 @@
+const FADE_STEP_MS = 50;
+
+// Fades one deck out and another in over `seconds` using an equal-power
+// curve, through setters so decks routed through Web Audio can fade with a
+// GainNode. Runs on a timer rather than animation frames so it keeps going in
+// background tabs. Returns a function that cancels the fade.
+export const crossfade = (
+  setOutgoingVolume: (volume: number) => void,
+  setIncomingVolume: (volume: number) => void,
+  seconds: number,
+  getVolume: () => number,
+  onDone: () => void
+) => {
+  const start = performance.now();
+  const duration = Math.max(seconds, 0.1) * 1000;
+
+  const step = () => {
+    const progress = Math.min((performance.now() - start) / duration, 1);
+    const volume = getVolume();
+    setIncomingVolume(volume * Math.sin((progress * Math.PI) / 2));
+    setOutgoingVolume(volume * Math.cos((progress * Math.PI) / 2));
+    if (progress >= 1) {
+      window.clearInterval(timer);
+      onDone();
+    }
+  };
+
+  const timer = window.setInterval(step, FADE_STEP_MS);
+  step();
+
+  return () => window.clearInterval(timer);
+};
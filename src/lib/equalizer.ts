@@ -0,0 +1,92 @@
+export type EqPreset = {
+  name: string;
+  gains: number[];
+};
+
+// Centre frequencies (Hz) of the ten EQ bands
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+
+export const EQ_MIN_GAIN = -12;
+export const EQ_MAX_GAIN = 12;
+
+export const FLAT_GAINS = EQ_BANDS.map(() => 0);
+
+export const BUILT_IN_PRESETS: EqPreset[] = [
+  { name: "Flat", gains: FLAT_GAINS },
+  { name: "Bass Boost", gains: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: "Vocal", gains: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { name: "Bollywood", gains: [4, 3, 2, 0, -1, 1, 3, 3, 2, 1] },
+  { name: "Classical", gains: [0, 0, 0, 0, 0, 0, -3, -3, -3, -4] },
+];
+
+export const formatBand = (frequency: number) =>
+  frequency >= 1000 ? `${frequency / 1000}k` : `${frequency}`;
+
+// Pads or trims stored gains to exactly one value per band
+export const normalizeGains = (gains: unknown): number[] =>
+  EQ_BANDS.map((_, index) => {
+    const gain = Array.isArray(gains) ? Number(gains[index]) : 0;
+    return isFinite(gain) ? Math.min(Math.max(gain, EQ_MIN_GAIN), EQ_MAX_GAIN) : 0;
+  });
+
+export interface AudioGraph {
+  context: AudioContext;
+  setGains: (gains: number[]) => void;
+  // Per-deck gain in dB, used for loudness normalization
+  setDeckGain: (deck: number, gain: number) => void;
+  // Per-deck playback volume (0-1). Routed elements are left at full volume;
+  // browsers differ on whether an element's own volume applies before the graph.
+  setDeckVolume: (deck: number, volume: number) => void;
+}
+
+// Routes every deck through one shared chain:
+// MediaElementSource → deck volume → deck gain → ten BiquadFilters → output gain → speakers
+export const createAudioGraph = (decks: HTMLAudioElement[]): AudioGraph => {
+  const context = new AudioContext();
+
+  const filters = EQ_BANDS.map((frequency, index) => {
+    const filter = context.createBiquadFilter();
+    if (index === 0) {
+      filter.type = "lowshelf";
+    } else if (index === EQ_BANDS.length - 1) {
+      filter.type = "highshelf";
+    } else {
+      filter.type = "peaking";
+      filter.Q.value = 1.4;
+    }
+    filter.frequency.value = frequency;
+    filter.gain.value = 0;
+    return filter;
+  });
+
+  const output = context.createGain();
+
+  for (let i = 0; i < filters.length - 1; i++) {
+    filters[i].connect(filters[i + 1]);
+  }
+  filters[filters.length - 1].connect(output);
+  output.connect(context.destination);
+
+  const deckVolumes = decks.map(() => context.createGain());
+  const deckGains = decks.map((deck, index) => {
+    const gain = context.createGain();
+    context.createMediaElementSource(deck).connect(deckVolumes[index]).connect(gain);
+    gain.connect(filters[0]);
+    return gain;
+  });
+
+  return {
+    context,
+    setGains: (gains) => {
+      filters.forEach((filter, index) => {
+        filter.gain.setTargetAtTime(gains[index] ?? 0, context.currentTime, 0.05);
+      });
+    },
+    setDeckGain: (deck, gain) => {
+      deckGains[deck]?.gain.setTargetAtTime(Math.pow(10, gain / 20), context.currentTime, 0.05);
+    },
+    setDeckVolume: (deck, volume) => {
+      deckVolumes[deck]?.gain.setTargetAtTime(volume, context.currentTime, 0.01);
+    },
+  };
+};
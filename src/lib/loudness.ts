@@ -0,0 +1,106 @@
+import { Song } from "@/lib/player";
+
+export type NormalizationMode = "track" | "album";
+
+// ReplayGain 2.0 reference level
+export const TARGET_LOUDNESS = -18;
+
+const MAX_BOOST = 10;
+const MAX_CUT = -20;
+
+const BLOCK_SECONDS = 0.4;
+const STEP_SECONDS = 0.1;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+
+const toLoudness = (power: number) => -0.691 + 10 * Math.log10(power);
+
+const clampGain = (gain: number) => Math.min(Math.max(gain, MAX_CUT), MAX_BOOST);
+
+export const gainForLoudness = (lufs: number) => clampGain(TARGET_LOUDNESS - lufs);
+
+// Gated integrated loudness of an already K-weighted buffer (ITU-R BS.1770):
+// 400 ms blocks with 75% overlap, an absolute gate at -70 LUFS and a
+// relative gate 10 LU below the loudness of the remaining blocks
+const integratedLoudness = (buffer: AudioBuffer) => {
+  const stepLength = Math.round(buffer.sampleRate * STEP_SECONDS);
+  const stepsPerBlock = Math.round(BLOCK_SECONDS / STEP_SECONDS);
+  const stepCount = Math.floor(buffer.length / stepLength);
+
+  const stepEnergy = new Float64Array(stepCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const samples = buffer.getChannelData(channel);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      for (let i = step * stepLength; i < (step + 1) * stepLength; i++) {
+        sum += samples[i] * samples[i];
+      }
+      stepEnergy[step] += sum;
+    }
+  }
+
+  const blocks: number[] = [];
+  for (let start = 0; start + stepsPerBlock <= stepCount; start++) {
+    let sum = 0;
+    for (let step = start; step < start + stepsPerBlock; step++) {
+      sum += stepEnergy[step];
+    }
+    blocks.push(sum / (stepLength * stepsPerBlock));
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+  const audible = blocks.filter((power) => toLoudness(power) > ABSOLUTE_GATE);
+  if (audible.length === 0) return -Infinity;
+
+  const threshold = toLoudness(mean(audible)) + RELATIVE_GATE;
+  const gated = audible.filter((power) => toLoudness(power) > threshold);
+  return toLoudness(mean(gated));
+};
+
+// Downloads and decodes a song, then measures its integrated loudness in LUFS
+export const measureLoudness = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not download song (${response.status})`);
+  }
+
+  const data = await response.arrayBuffer();
+  const decoded = await new OfflineAudioContext(1, 1, 44100).decodeAudioData(data);
+
+  // K-weighting: a high-shelf boost approximating the head's acoustic effect,
+  // followed by a high-pass that ignores rumble below ~40 Hz
+  const context = new OfflineAudioContext(decoded.numberOfChannels, decoded.length, decoded.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = decoded;
+
+  const shelf = context.createBiquadFilter();
+  shelf.type = "highshelf";
+  shelf.frequency.value = 1500;
+  shelf.gain.value = 4;
+
+  const highpass = context.createBiquadFilter();
+  highpass.type = "highpass";
+  highpass.frequency.value = 38;
+  highpass.Q.value = 0.5;
+
+  source.connect(shelf).connect(highpass).connect(context.destination);
+  source.start();
+
+  const loudness = integratedLoudness(await context.startRendering());
+  if (!isFinite(loudness)) {
+    throw new Error("Song is silent");
+  }
+  return loudness;
+};
+
+// Songs without a measurement play unchanged in either mode. Album mode uses
+// the album's stored gain, so quiet and loud songs on it keep their contrast;
+// songs without an album fall back to their own gain.
+export const normalizationGain = (song: Song, mode: NormalizationMode) => {
+  if (typeof song.loudness_lufs !== "number") return 0;
+  if (mode === "album" && song.album_id && typeof song.replaygain_album_gain === "number") {
+    return song.replaygain_album_gain;
+  }
+  return song.replaygain_track_gain ?? gainForLoudness(song.loudness_lufs);
+};
@@ -0,0 +1,74 @@
+import { isLibrarySong, Song } from "@/lib/player";
+
+export type PartyRole = "host" | "guest";
+
+// What the host is playing, broadcast on every change and as a heartbeat
+export interface PartyPlayback {
+  song: Song | null;
+  playing: boolean;
+  // Seconds into the song when the message was sent
+  position: number;
+  // Host clock (ms) when the message was sent
+  sentAt: number;
+}
+
+export interface PartySuggestion {
+  id: string;
+  song: Song;
+  suggestedBy: string;
+}
+
+// What a guest sends: just the song's id, which the host looks up itself
+export interface PartySuggestRequest {
+  id: string;
+  songId: string;
+  suggestedBy: string;
+}
+
+export interface PartyParticipant {
+  clientId: string;
+  userId: string | null;
+  name: string;
+}
+
+// Host state is re-sent this often so late joiners and drifting guests catch up
+export const PARTY_HEARTBEAT_INTERVAL = 2000;
+
+// Guests re-estimate their clock offset to the host this often
+export const PARTY_CLOCK_SYNC_INTERVAL = 30000;
+
+// Guests only seek when they are further than this from the host (seconds)
+export const PARTY_DRIFT_TOLERANCE = 1;
+
+const MAX_SUGGESTER_NAME_LENGTH = 60;
+
+export const partyLink = (roomId: string) => `${window.location.origin}/party/${roomId}`;
+
+// Round-trip estimate of host clock minus guest clock, assuming symmetric latency
+export const estimateClockOffset = (sentAt: number, hostTime: number, receivedAt: number) =>
+  hostTime - (sentAt + receivedAt) / 2;
+
+// Where the host is now, from a playback message and the guest's clock offset
+export const expectedPosition = (playback: PartyPlayback, clockOffset: number, now = Date.now()) => {
+  if (!playback.playing) return playback.position;
+  const elapsed = (now + clockOffset - playback.sentAt) / 1000;
+  return playback.position + Math.max(elapsed, 0);
+};
+
+// Only what guests need to play the song
+export const toPartySong = (song: Song): Song => ({
+  id: song.id,
+  title: song.title,
+  url: song.url,
+  artist: song.artist,
+  duration: song.duration,
+});
+
+// Guest messages are untrusted: anything that isn't a well-formed suggest request is dropped
+export const parseSuggestRequest = (payload: unknown): PartySuggestRequest | null => {
+  if (!payload || typeof payload !== "object") return null;
+  const { id, songId, suggestedBy } = payload as Record<string, unknown>;
+  if (typeof id !== "string" || typeof songId !== "string" || typeof suggestedBy !== "string") return null;
+  if (!id || id.length > 64 || !isLibrarySong({ id: songId })) return null;
+  return { id, songId, suggestedBy: suggestedBy.trim().slice(0, MAX_SUGGESTER_NAME_LENGTH) || "Guest" };
+};
@@ -0,0 +1,81 @@
+export interface Song {
+  id: string;
+  title: string;
+  url: string;
+  artist?: string;
+  duration?: number;
+  category_id?: string;
+  uploaded_by?: string;
+  is_public?: boolean;
+  loudness_lufs?: number | null;
+  replaygain_track_gain?: number | null;
+  replaygain_album_gain?: number | null;
+  album_id?: string | null;
+  track_number?: number | null;
+  artwork_url?: string | null;
+  created_at?: string;
+}
+
+// Where a song was queued from, recorded with listening history
+export type PlaySource = "library" | "queue" | "history" | "liked" | "playlist" | "party" | "search" | "category" | "radio";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Songs stored in the songs table, as opposed to local-only entries like YouTube links
+export const isLibrarySong = (song: Pick<Song, "id">) => UUID_PATTERN.test(song.id);
+
+export type PlaybackStatus =
+  | "idle"
+  | "loading"
+  | "playing"
+  | "paused"
+  | "buffering"
+  | "error"
+  | "ended";
+
+export type RepeatMode = "off" | "all" | "one";
+
+const repeatCycle: RepeatMode[] = ["off", "all", "one"];
+
+export const nextRepeatMode = (mode: RepeatMode) =>
+  repeatCycle[(repeatCycle.indexOf(mode) + 1) % repeatCycle.length];
+
+export const repeatLabels: Record<RepeatMode, string> = {
+  off: "Repeat off",
+  all: "Repeat all",
+  one: "Repeat one",
+};
+
+// Allowed status transitions for the playback engine. Media events that
+// arrive out of order (e.g. a late "pause" after "ended") are ignored.
+const transitions: Record<PlaybackStatus, PlaybackStatus[]> = {
+  idle: ["loading"],
+  loading: ["playing", "paused", "buffering", "error", "idle"],
+  playing: ["paused", "buffering", "ended", "error", "loading", "idle"],
+  paused: ["playing", "buffering", "ended", "error", "loading", "idle"],
+  buffering: ["playing", "paused", "error", "loading", "idle"],
+  error: ["loading", "idle"],
+  ended: ["loading", "playing", "buffering", "idle"],
+};
+
+export const canTransition = (from: PlaybackStatus, to: PlaybackStatus) =>
+  from === to || transitions[from].includes(to);
+
+export const formatTime = (time: number) => {
+  if (isNaN(time) || !isFinite(time)) return "0:00";
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Formats a total length in seconds, e.g. "1 hr 5 min"
+export const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours} hr ${minutes % 60} min` : `${hours} hr`;
+};
+
+// Formats a 0–1 ratio, or a dash when it is unknown
+export const formatPercent = (value: number | null) =>
+  value === null || value === undefined ? "–" : `${Math.round(value * 100)}%`;
@@ -0,0 +1,256 @@
+import { Song } from "@/lib/player";
+import { Playlist } from "@/lib/playlists";
+import { normalizeSearchText } from "@/lib/search";
+
+export type PlaylistFormat = "m3u" | "m3u8" | "pls" | "xspf";
+
+// M3U and M3U8 share a body; they differ in file extension and MIME type
+export const PLAYLIST_FORMATS: { format: PlaylistFormat; label: string; mimeType: string }[] = [
+  { format: "m3u", label: "M3U", mimeType: "audio/x-mpegurl" },
+  { format: "m3u8", label: "M3U8 (UTF-8)", mimeType: "application/vnd.apple.mpegurl" },
+  { format: "pls", label: "PLS", mimeType: "audio/x-scpls" },
+  { format: "xspf", label: "XSPF", mimeType: "application/xspf+xml" },
+];
+
+export const PLAYLIST_FILE_ACCEPT = ".m3u,.m3u8,.pls,.xspf";
+
+// One track read from a playlist file
+export interface PlaylistEntry {
+  location: string;
+  title: string;
+  artist: string | null;
+  duration: number | null;
+}
+
+export interface ParsedPlaylist {
+  name: string | null;
+  entries: PlaylistEntry[];
+}
+
+// "Artist - Title" as written by EXTINF lines and PLS titles
+const displayTitle = (song: Song) => (song.artist ? `${song.artist} - ${song.title}` : song.title);
+
+const splitDisplayTitle = (text: string) => {
+  const separator = text.indexOf(" - ");
+  if (separator === -1) return { artist: null, title: text.trim() };
+  return { artist: text.slice(0, separator).trim() || null, title: text.slice(separator + 3).trim() };
+};
+
+// Falls back to the file name when a playlist only lists locations
+const titleFromLocation = (location: string) => {
+  let name = location.split(/[\\/]/).pop() || location;
+  try {
+    name = decodeURIComponent(name);
+  } catch {
+    // Keep the raw name when it isn't valid percent-encoding
+  }
+  return name.replace(/\.[a-z0-9]{2,4}$/i, "");
+};
+
+const parseDuration = (value: string | null | undefined) => {
+  const duration = Number(value);
+  return isFinite(duration) && duration > 0 ? Math.round(duration) : null;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const toM3U = (playlist: Playlist) =>
+  [
+    "#EXTM3U",
+    `#PLAYLIST:${playlist.name}`,
+    ...playlist.songs.flatMap((song) => [
+      `#EXTINF:${song.duration || -1},${displayTitle(song)}`,
+      song.url,
+    ]),
+  ].join("\n") + "\n";
+
+const toPLS = (playlist: Playlist) =>
+  [
+    "[playlist]",
+    ...playlist.songs.flatMap((song, index) => [
+      `File${index + 1}=${song.url}`,
+      `Title${index + 1}=${displayTitle(song)}`,
+      `Length${index + 1}=${song.duration || -1}`,
+    ]),
+    `NumberOfEntries=${playlist.songs.length}`,
+    "Version=2",
+  ].join("\n") + "\n";
+
+const toXSPF = (playlist: Playlist) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(playlist.name)}</title>`,
+    ...(playlist.description ? [`  <annotation>${escapeXml(playlist.description)}</annotation>`] : []),
+    "  <trackList>",
+    ...playlist.songs.flatMap((song) => [
+      "    <track>",
+      `      <location>${escapeXml(song.url)}</location>`,
+      `      <title>${escapeXml(song.title)}</title>`,
+      ...(song.artist ? [`      <creator>${escapeXml(song.artist)}</creator>`] : []),
+      ...(song.duration ? [`      <duration>${song.duration * 1000}</duration>`] : []),
+      "    </track>",
+    ]),
+    "  </trackList>",
+    "</playlist>",
+  ].join("\n") + "\n";
+
+export const exportPlaylist = (playlist: Playlist, format: PlaylistFormat) => {
+  if (format === "pls") return toPLS(playlist);
+  if (format === "xspf") return toXSPF(playlist);
+  return toM3U(playlist);
+};
+
+export const downloadPlaylist = (playlist: Playlist, format: PlaylistFormat) => {
+  const { mimeType } = PLAYLIST_FORMATS.find((f) => f.format === format);
+  const blob = new Blob([exportPlaylist(playlist, format)], { type: `${mimeType};charset=utf-8` });
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(blob);
+  link.download = `${playlist.name.replace(/[\\/:*?"<>|]+/g, "_")}.${format}`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+};
+
+const parseM3U = (text: string): ParsedPlaylist => {
+  let name: string | null = null;
+  let info: { title: string; artist: string | null; duration: number | null } | null = null;
+  const entries: PlaylistEntry[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith("#PLAYLIST:")) {
+      name = line.slice("#PLAYLIST:".length).trim() || null;
+    } else if (line.startsWith("#EXTINF:")) {
+      const body = line.slice("#EXTINF:".length);
+      const comma = body.indexOf(",");
+      // Attributes like tvg-name="..." can follow the duration
+      const duration = parseDuration(body.slice(0, comma === -1 ? undefined : comma).split(/\s/)[0]);
+      info = { duration, ...splitDisplayTitle(comma === -1 ? "" : body.slice(comma + 1)) };
+    } else if (!line.startsWith("#")) {
+      entries.push({
+        location: line,
+        title: info?.title || titleFromLocation(line),
+        artist: info?.artist ?? null,
+        duration: info?.duration ?? null,
+      });
+      info = null;
+    }
+  });
+
+  return { name, entries };
+};
+
+const parsePLS = (text: string): ParsedPlaylist => {
+  const fields = new Map<string, string>();
+  text.split(/\r?\n/).forEach((line) => {
+    const match = line.trim().match(/^(File|Title|Length)(\d+)=(.*)$/i);
+    if (match) fields.set(`${match[1].toLowerCase()}${Number(match[2])}`, match[3].trim());
+  });
+
+  const numbers = [...fields.keys()]
+    .filter((key) => key.startsWith("file"))
+    .map((key) => Number(key.slice(4)))
+    .sort((a, b) => a - b);
+
+  return {
+    name: null,
+    entries: numbers.map((n) => {
+      const location = fields.get(`file${n}`);
+      const title = fields.get(`title${n}`);
+      return {
+        location,
+        ...(title ? splitDisplayTitle(title) : { title: titleFromLocation(location), artist: null }),
+        duration: parseDuration(fields.get(`length${n}`)),
+      };
+    }),
+  };
+};
+
+const parseXSPF = (text: string): ParsedPlaylist => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The XSPF file is not valid XML");
+  }
+
+  const childText = (parent: Element, tag: string) =>
+    Array.from(parent.children).find((child) => child.localName === tag)?.textContent?.trim() || null;
+
+  const playlist = doc.documentElement;
+  const entries = Array.from(doc.getElementsByTagNameNS("*", "track"))
+    .map((track) => {
+      const location = childText(track, "location");
+      const duration = parseDuration(childText(track, "duration"));
+      return {
+        location: location || "",
+        title: childText(track, "title") || (location ? titleFromLocation(location) : ""),
+        artist: childText(track, "creator"),
+        duration: duration ? Math.round(duration / 1000) : null,
+      };
+    })
+    .filter((entry) => entry.location || entry.title);
+
+  return { name: childText(playlist, "title"), entries };
+};
+
+export const detectFormat = (fileName: string, text: string): PlaylistFormat => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  if (extension === "pls" || extension === "xspf" || extension === "m3u" || extension === "m3u8") {
+    return extension;
+  }
+  const start = text.trimStart().slice(0, 100).toLowerCase();
+  if (start.startsWith("<?xml") || start.startsWith("<playlist")) return "xspf";
+  if (start.startsWith("[playlist]")) return "pls";
+  return "m3u";
+};
+
+export const parsePlaylist = (fileName: string, text: string): ParsedPlaylist => {
+  const format = detectFormat(fileName, text);
+  const parsed = format === "pls" ? parsePLS(text) : format === "xspf" ? parseXSPF(text) : parseM3U(text);
+  return {
+    ...parsed,
+    name: parsed.name || fileName.replace(/\.[^.]+$/, ""),
+  };
+};
+
+export interface EntryMatch {
+  entry: PlaylistEntry;
+  song: Song | null;
+  // How the song was found, or why nothing was
+  reason: "url" | "title" | "not_found" | "ambiguous";
+}
+
+// Matches by exact link first, then by title and artist. A title alone only
+// counts when exactly one song has it.
+export const matchEntries = (entries: PlaylistEntry[], songs: Song[]): EntryMatch[] => {
+  const byUrl = new Map(songs.map((song) => [song.url.trim(), song]));
+  const byTitle = new Map<string, Song[]>();
+  songs.forEach((song) => {
+    const key = normalizeSearchText(song.title);
+    byTitle.set(key, [...(byTitle.get(key) || []), song]);
+  });
+
+  return entries.map((entry) => {
+    const urlMatch = entry.location ? byUrl.get(entry.location.trim()) : undefined;
+    if (urlMatch) return { entry, song: urlMatch, reason: "url" };
+
+    const candidates = byTitle.get(normalizeSearchText(entry.title)) || [];
+    const artist = normalizeSearchText(entry.artist);
+    const matches = artist
+      ? candidates.filter((song) => normalizeSearchText(song.artist) === artist)
+      : candidates;
+
+    if (matches.length === 1) return { entry, song: matches[0], reason: "title" };
+    return { entry, song: null, reason: matches.length > 1 ? "ambiguous" : "not_found" };
+  });
+};
+
+// Entries whose location can be stored as a new song
+export const isCreatableEntry = (entry: PlaylistEntry) => /^https?:\/\//i.test(entry.location || "");
@@ -0,0 +1,73 @@
+import { Song } from "@/lib/player";
+import { parseRules, SmartRules } from "@/lib/smartPlaylists";
+
+export interface PlaylistDetails {
+  name: string;
+  description: string | null;
+  is_public: boolean;
+  // Uploaded cover art; playlists without one get generated art
+  artwork_url?: string | null;
+  // Set for smart playlists, whose songs come from the rules
+  rules?: SmartRules | null;
+}
+
+export interface Playlist extends PlaylistDetails {
+  id: string;
+  user_id: string;
+  created_at: string;
+  rules: SmartRules | null;
+  rules_refreshed_at: string | null;
+  // In playlist_songs.position order
+  songs: Song[];
+  // Who added each song, keyed by song id
+  addedBy: Record<string, string | null>;
+  // User ids of invited collaborators; only visible to playlist members
+  collaborators: string[];
+}
+
+// Playlist columns with its songs and collaborators, for toPlaylist
+export const PLAYLIST_SELECT =
+  "*, playlist_songs(position, added_by, songs(*)), playlist_collaborators(user_id)";
+
+interface PlaylistRow {
+  id: string;
+  name: string;
+  description: string | null;
+  is_public: boolean | null;
+  artwork_url?: string | null;
+  user_id: string;
+  created_at: string;
+  rules?: unknown;
+  rules_refreshed_at?: string | null;
+  playlist_songs?: { position: number; added_by?: string | null; songs: Song | null }[];
+  playlist_collaborators?: { user_id: string }[];
+}
+
+export const toPlaylist = ({ playlist_songs, playlist_collaborators, ...row }: PlaylistRow): Playlist => {
+  const entries = [...(playlist_songs || [])]
+    .filter((entry) => entry.songs)
+    .sort((a, b) => a.position - b.position);
+
+  return {
+    ...row,
+    is_public: !!row.is_public,
+    rules: parseRules(row.rules),
+    rules_refreshed_at: row.rules_refreshed_at ?? null,
+    songs: entries.map((entry) => entry.songs),
+    addedBy: Object.fromEntries(entries.map((entry) => [entry.songs.id, entry.added_by ?? null])),
+    collaborators: (playlist_collaborators || []).map((collaborator) => collaborator.user_id),
+  };
+};
+
+// Shared playlists show who added each song
+export const isCollaborative = (playlist: Playlist) =>
+  playlist.collaborators.length > 0 ||
+  Object.values(playlist.addedBy).some((userId) => userId && userId !== playlist.user_id);
+
+export const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
@@ -0,0 +1,118 @@
+import { PlaySource, RepeatMode, Song } from "@/lib/player";
+
+export interface QueueItem extends Song {
+  // Unique per queue entry, so the same song can be queued more than once
+  queueId: string;
+  source?: PlaySource;
+}
+
+export interface QueuePosition {
+  queue: QueueItem[];
+  currentIndex: number;
+}
+
+export interface StoredQueue extends QueuePosition {
+  // Queue order from before shuffle was turned on, or null when not shuffled
+  originalOrder: string[] | null;
+}
+
+const QUEUE_STORAGE_KEY = "mjplayer-queue";
+
+let queueCounter = 0;
+
+export const toQueueItem = (song: Song, source?: PlaySource): QueueItem => {
+  queueCounter = (queueCounter + 1) % Number.MAX_SAFE_INTEGER;
+  return {
+    ...song,
+    queueId: `${song.id}-${Date.now().toString(36)}-${queueCounter}`,
+    source,
+  };
+};
+
+export const toQueueItems = (songs: Song[], source?: PlaySource) => songs.map((song) => toQueueItem(song, source));
+
+export const insertIntoQueue = (
+  { queue, currentIndex }: QueuePosition,
+  items: QueueItem[],
+  at: number
+): QueuePosition => {
+  const position = Math.min(Math.max(at, 0), queue.length);
+  const nextQueue = [...queue.slice(0, position), ...items, ...queue.slice(position)];
+  if (queue.length === 0) {
+    return { queue: nextQueue, currentIndex: 0 };
+  }
+  return {
+    queue: nextQueue,
+    currentIndex: position <= currentIndex ? currentIndex + items.length : currentIndex,
+  };
+};
+
+export const removeFromQueue = ({ queue, currentIndex }: QueuePosition, index: number): QueuePosition => {
+  if (index < 0 || index >= queue.length) return { queue, currentIndex };
+
+  const nextQueue = queue.filter((_, i) => i !== index);
+  let nextIndex = currentIndex;
+  if (index < currentIndex) {
+    nextIndex = currentIndex - 1;
+  } else if (index === currentIndex && currentIndex >= nextQueue.length) {
+    // Removing the last song moves back to the new last one
+    nextIndex = Math.max(nextQueue.length - 1, 0);
+  }
+  return { queue: nextQueue, currentIndex: nextIndex };
+};
+
+export const moveInQueue = ({ queue, currentIndex }: QueuePosition, from: number, to: number): QueuePosition => {
+  if (from === to || from < 0 || from >= queue.length || to < 0 || to >= queue.length) {
+    return { queue, currentIndex };
+  }
+
+  const nextQueue = [...queue];
+  const [item] = nextQueue.splice(from, 1);
+  nextQueue.splice(to, 0, item);
+
+  let nextIndex = currentIndex;
+  if (from === currentIndex) {
+    nextIndex = to;
+  } else if (from < currentIndex && to >= currentIndex) {
+    nextIndex = currentIndex - 1;
+  } else if (from > currentIndex && to <= currentIndex) {
+    nextIndex = currentIndex + 1;
+  }
+  return { queue: nextQueue, currentIndex: nextIndex };
+};
+
+// Drops everything except the song that is currently loaded
+export const clearUpcoming = ({ queue, currentIndex }: QueuePosition): QueuePosition => {
+  const current = queue[currentIndex];
+  return current ? { queue: [current], currentIndex: 0 } : { queue: [], currentIndex: 0 };
+};
+
+// The entry that plays after the current one ends on its own, if any
+export const getUpcoming = ({ queue, currentIndex }: QueuePosition, repeat: RepeatMode): QueueItem | null => {
+  if (queue.length === 0 || repeat === "one") return null;
+  if (currentIndex < queue.length - 1) return queue[currentIndex + 1];
+  return repeat === "all" && queue.length > 1 ? queue[0] : null;
+};
+
+export const loadStoredQueue = (): StoredQueue => {
+  try {
+    const saved = localStorage.getItem(QUEUE_STORAGE_KEY);
+    if (saved) {
+      const { queue, currentIndex, originalOrder } = JSON.parse(saved);
+      if (Array.isArray(queue)) {
+        return {
+          queue,
+          currentIndex: Math.min(Math.max(currentIndex || 0, 0), Math.max(queue.length - 1, 0)),
+          originalOrder: Array.isArray(originalOrder) ? originalOrder : null,
+        };
+      }
+    }
+  } catch (error) {
+    console.error("Error restoring queue:", error);
+  }
+  return { queue: [], currentIndex: 0, originalOrder: null };
+};
+
+export const storeQueue = (stored: StoredQueue) => {
+  localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(stored));
+};
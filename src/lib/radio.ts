@@ -0,0 +1,52 @@
+import { Song } from "@/lib/player";
+
+export interface RadioStation {
+  categoryId: string;
+  name: string;
+}
+
+// Songs added to the queue at a time
+export const RADIO_BATCH_SIZE = 10;
+
+// More songs are added once this few radio songs are left to play
+export const RADIO_REFILL_THRESHOLD = 3;
+
+// A song isn't picked again until this many others have played, or half the category for small ones
+const RADIO_REPEAT_WINDOW = 25;
+
+// Every song gets a base chance; likes raise it with diminishing returns, and the listener's own like counts extra
+export const radioWeight = (likes: number, likedByListener: boolean) =>
+  1 + Math.log2(1 + likes) + (likedByListener ? 2 : 0);
+
+// Weighted random picks without replacement. Songs among the last few played
+// are skipped, so the radio doesn't repeat itself even though it never ends.
+export const pickRadioSongs = (
+  pool: Song[],
+  weightOf: (song: Song) => number,
+  recentIds: string[],
+  count: number
+): Song[] => {
+  if (pool.length === 0) return [];
+
+  const windowSize = Math.min(RADIO_REPEAT_WINDOW, Math.floor(pool.length / 2));
+  const recent = recentIds.slice(-windowSize);
+  const picks: Song[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const blocked = new Set(windowSize > 0 ? [...recent, ...picks.map((song) => song.id)].slice(-windowSize) : []);
+    const candidates = pool.filter((song) => !blocked.has(song.id));
+    const choices = candidates.length > 0 ? candidates : pool;
+
+    const weights = choices.map(weightOf);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    let roll = Math.random() * total;
+    let index = 0;
+    while (index < choices.length - 1 && roll >= weights[index]) {
+      roll -= weights[index];
+      index++;
+    }
+    picks.push(choices[index]);
+  }
+
+  return picks;
+};
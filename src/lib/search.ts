@@ -0,0 +1,59 @@
+import { Song } from "@/lib/player";
+
+export type SearchResultKind = "song" | "artist" | "album" | "playlist" | "category";
+
+// One row from the search_library RPC
+export interface SearchResult {
+  kind: SearchResultKind;
+  id: string | null;
+  title: string;
+  subtitle: string | null;
+  rank: number;
+}
+
+// Result groups in the order the search page shows them
+export const searchGroups: { kind: SearchResultKind; label: string }[] = [
+  { kind: "song", label: "Songs" },
+  { kind: "artist", label: "Artists" },
+  { kind: "album", label: "Albums" },
+  { kind: "playlist", label: "Playlists" },
+  { kind: "category", label: "Categories" },
+];
+
+// Shorter queries match too much to be useful server-side
+export const SEARCH_MIN_LENGTH = 2;
+
+// Results per kind
+export const SEARCH_LIMIT = 10;
+
+// How long to wait after the last keystroke before querying (ms)
+export const SEARCH_DEBOUNCE = 250;
+
+// Lowercased, without accents or punctuation, so "Beyoncé" matches "beyonce"
+export const normalizeSearchText = (value: string | null | undefined) =>
+  (value || "")
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+// Instant filter for an already loaded list: every word must appear in the title or artist
+export const filterSongs = <T extends Song>(songs: T[], query: string): T[] => {
+  const words = normalizeSearchText(query).split(" ").filter(Boolean);
+  if (words.length === 0) return songs;
+
+  return songs.filter((song) => {
+    const text = normalizeSearchText(`${song.title} ${song.artist || ""}`);
+    return words.every((word) => text.includes(word));
+  });
+};
+
+export const groupResults = (results: SearchResult[]) => {
+  const groups = Object.fromEntries(searchGroups.map(({ kind }) => [kind, [] as SearchResult[]])) as Record<
+    SearchResultKind,
+    SearchResult[]
+  >;
+  results.forEach((result) => groups[result.kind]?.push(result));
+  return groups;
+};
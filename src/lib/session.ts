@@ -0,0 +1,84 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { RepeatMode } from "@/lib/player";
+import { QueueItem, StoredQueue } from "@/lib/queue";
+
+export interface StoredPlayback {
+  position: number;
+  volume: number;
+  repeat: RepeatMode;
+}
+
+// A snapshot of everything needed to pick up listening where it stopped
+export interface PlaybackSession extends StoredQueue, StoredPlayback {
+  deviceId: string;
+  deviceName: string;
+  updatedAt: string;
+}
+
+const PLAYBACK_STORAGE_KEY = "mjplayer-playback";
+const DEVICE_STORAGE_KEY = "mjplayer-device-id";
+
+export const SESSION_SAVE_INTERVAL = 15000;
+
+export const getDeviceId = () => {
+  let deviceId = localStorage.getItem(DEVICE_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+};
+
+// A readable "Browser on OS" label for the resume prompt
+export const getDeviceName = () => {
+  const agent = navigator.userAgent;
+  const browser =
+    /Edg\//.test(agent) ? "Edge" :
+    /OPR\//.test(agent) ? "Opera" :
+    /Firefox\//.test(agent) ? "Firefox" :
+    /Chrome\//.test(agent) ? "Chrome" :
+    /Safari\//.test(agent) ? "Safari" : "Browser";
+  const os =
+    /Android/.test(agent) ? "Android" :
+    /iPhone|iPad|iPod/.test(agent) ? "iOS" :
+    /Windows/.test(agent) ? "Windows" :
+    /Mac OS X/.test(agent) ? "macOS" :
+    /Linux/.test(agent) ? "Linux" : "Unknown";
+  return `${browser} on ${os}`;
+};
+
+export const loadStoredPlayback = (): StoredPlayback | null => {
+  try {
+    const saved = localStorage.getItem(PLAYBACK_STORAGE_KEY);
+    if (saved) {
+      const { position, volume, repeat } = JSON.parse(saved);
+      return {
+        position: Math.max(Number(position) || 0, 0),
+        volume: Math.min(Math.max(Number(volume ?? 0.7), 0), 1),
+        repeat: ["off", "all", "one"].includes(repeat) ? repeat : "off",
+      };
+    }
+  } catch (error) {
+    console.error("Error restoring playback:", error);
+  }
+  return null;
+};
+
+export const storePlayback = (playback: StoredPlayback) => {
+  localStorage.setItem(PLAYBACK_STORAGE_KEY, JSON.stringify(playback));
+};
+
+export const fromSessionRow = (row: Tables<"playback_sessions">): PlaybackSession => {
+  const queue = Array.isArray(row.queue) ? (row.queue as unknown as QueueItem[]) : [];
+  return {
+    queue,
+    currentIndex: Math.min(Math.max(row.current_index, 0), Math.max(queue.length - 1, 0)),
+    originalOrder: Array.isArray(row.original_order) ? (row.original_order as string[]) : null,
+    position: row.position,
+    volume: row.volume,
+    repeat: row.repeat_mode as RepeatMode,
+    deviceId: row.device_id,
+    deviceName: row.device_name,
+    updatedAt: row.updated_at,
+  };
+};
@@ -0,0 +1,101 @@
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const ART_SIZE = 430;
+const PADDING = 100;
+
+export interface ShareCardContent {
+  // Shown above the title, e.g. "Song" or "Playlist"
+  label: string;
+  title: string;
+  subtitle?: string | null;
+  artworkUrl: string;
+  // Used when the artwork can't be drawn, e.g. a host without CORS headers
+  fallbackArtworkUrl: string;
+  // Page the card links to when shared
+  url: string;
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${src}`));
+    image.src = src;
+  });
+
+// Cuts text to fit the width, ending in an ellipsis when it doesn't
+const fitText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  if (ctx.measureText(text).width <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && ctx.measureText(`${fitted}…`).width > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+// A 1200x630 image (the usual link preview size) with the artwork, title and subtitle
+export const renderShareCard = async (content: ShareCardContent) => {
+  const artwork = await loadImage(content.artworkUrl).catch(() => loadImage(content.fallbackArtworkUrl));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+
+  // The artwork, blurred and darkened, fills the background
+  ctx.fillStyle = "#111";
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  ctx.filter = "blur(40px) brightness(0.45)";
+  ctx.drawImage(artwork, -100, (CARD_HEIGHT - CARD_WIDTH) / 2 - 100, CARD_WIDTH + 200, CARD_WIDTH + 200);
+  ctx.filter = "none";
+
+  ctx.shadowColor = "rgba(0, 0, 0, 0.5)";
+  ctx.shadowBlur = 40;
+  ctx.drawImage(artwork, PADDING, (CARD_HEIGHT - ART_SIZE) / 2, ART_SIZE, ART_SIZE);
+  ctx.shadowBlur = 0;
+
+  const textX = PADDING * 2 + ART_SIZE;
+  const textWidth = CARD_WIDTH - textX - PADDING;
+  ctx.textBaseline = "alphabetic";
+  ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+  ctx.font = "600 28px sans-serif";
+  ctx.fillText(content.label.toUpperCase(), textX, 250);
+
+  ctx.fillStyle = "#fff";
+  ctx.font = "bold 64px sans-serif";
+  ctx.fillText(fitText(ctx, content.title, textWidth), textX, 330);
+
+  if (content.subtitle) {
+    ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+    ctx.font = "36px sans-serif";
+    ctx.fillText(fitText(ctx, content.subtitle, textWidth), textX, 390);
+  }
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.6)";
+  ctx.font = "600 28px sans-serif";
+  ctx.fillText("MJ Player", textX, CARD_HEIGHT - PADDING);
+
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Could not render share card"))), "image/png")
+  );
+};
+
+// Opens the system share sheet where images can be shared, otherwise downloads the card
+export const shareCard = async (content: ShareCardContent) => {
+  const card = await renderShareCard(content);
+  const file = new File([card], `${content.title.replace(/[\\/:*?"<>|]+/g, "_")}.png`, { type: "image/png" });
+
+  if (navigator.canShare?.({ files: [file] })) {
+    await navigator.share({ files: [file], title: content.title, url: content.url });
+    return "shared";
+  }
+
+  const link = document.createElement("a");
+  link.href = URL.createObjectURL(file);
+  link.download = file.name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(link.href), 0);
+  return "downloaded";
+};
@@ -0,0 +1,84 @@
+export type ShortcutAction =
+  | "togglePlay"
+  | "seekForward"
+  | "seekBackward"
+  | "volumeUp"
+  | "volumeDown"
+  | "nextSong"
+  | "prevSong"
+  | "toggleShuffle"
+  | "cycleRepeat"
+  | "like"
+  | "focusSearch"
+  | "showShortcuts";
+
+export type Keybindings = Record<ShortcutAction, string>;
+
+// Keys are stored as KeyboardEvent.key, lowercased, with " " stored as "Space"
+export const DEFAULT_KEYBINDINGS: Keybindings = {
+  togglePlay: "Space",
+  seekForward: "ArrowRight",
+  seekBackward: "ArrowLeft",
+  volumeUp: "ArrowUp",
+  volumeDown: "ArrowDown",
+  nextSong: "n",
+  prevSong: "p",
+  toggleShuffle: "s",
+  cycleRepeat: "r",
+  like: "l",
+  focusSearch: "/",
+  showShortcuts: "?",
+};
+
+export const shortcutLabels: Record<ShortcutAction, string> = {
+  togglePlay: "Play / pause",
+  seekForward: "Seek forward 5 seconds",
+  seekBackward: "Seek back 5 seconds",
+  volumeUp: "Volume up",
+  volumeDown: "Volume down",
+  nextSong: "Next song",
+  prevSong: "Previous song",
+  toggleShuffle: "Toggle shuffle",
+  cycleRepeat: "Change repeat mode",
+  like: "Like current song",
+  focusSearch: "Search",
+  showShortcuts: "Show keyboard shortcuts",
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_KEYBINDINGS) as ShortcutAction[];
+
+export const SEEK_STEP = 5;
+export const VOLUME_STEP = 0.05;
+
+const keyNames: Record<string, string> = {
+  Space: "Space",
+  ArrowRight: "→",
+  ArrowLeft: "←",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+export const formatKey = (key: string) => keyNames[key] || key.toUpperCase();
+
+export const eventToKey = (event: KeyboardEvent) => {
+  if (event.key === " ") return "Space";
+  return event.key.length === 1 ? event.key.toLowerCase() : event.key;
+};
+
+// Modifier keys on their own can't be bound
+export const isBindableKey = (key: string) =>
+  !["Shift", "Control", "Alt", "Meta", "CapsLock", "Tab", "Escape", "Enter"].includes(key);
+
+// Custom bindings from preferences override the defaults action by action
+export const resolveKeybindings = (custom: Partial<Keybindings> | null | undefined): Keybindings => ({
+  ...DEFAULT_KEYBINDINGS,
+  ...(custom || {}),
+});
+
+// Keys typed into form fields, or used by focused sliders and menus, are left alone
+export const isTypingTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  return !!target.closest('[role="slider"], [role="menu"], [role="listbox"], [role="combobox"], [role="dialog"]');
+};
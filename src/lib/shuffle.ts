@@ -0,0 +1,65 @@
+import { QueueItem, QueuePosition } from "@/lib/queue";
+
+const MAX_HISTORY = 100;
+
+// Fisher–Yates shuffle; returns a new array and leaves the input untouched
+export const fisherYates = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Generates the shuffled play order once: the current song stays loaded and
+// moves to the front, everything else follows in random order.
+export const shuffleQueue = ({ queue, currentIndex }: QueuePosition): QueuePosition => {
+  const current = queue[currentIndex];
+  if (!current) return { queue: fisherYates(queue), currentIndex: 0 };
+
+  const rest = queue.filter((_, index) => index !== currentIndex);
+  return { queue: [current, ...fisherYates(rest)], currentIndex: 0 };
+};
+
+// Restores the order the queue had before shuffling. Songs queued while
+// shuffle was on are kept right after the current song.
+export const unshuffleQueue = ({ queue, currentIndex }: QueuePosition, originalOrder: string[]): QueuePosition => {
+  const current = queue[currentIndex];
+  const rank = new Map(originalOrder.map((queueId, index) => [queueId, index]));
+  const known = queue
+    .filter((item) => rank.has(item.queueId))
+    .sort((a, b) => rank.get(a.queueId)! - rank.get(b.queueId)!);
+  const added = queue.filter((item) => !rank.has(item.queueId) && item.queueId !== current?.queueId);
+
+  let restored: QueueItem[] = known;
+  if (current) {
+    const position = rank.has(current.queueId) ? known.indexOf(current) : known.length;
+    const before = known.slice(0, position);
+    const after = known.slice(rank.has(current.queueId) ? position + 1 : position);
+    restored = [...before, current, ...added, ...after];
+  } else {
+    restored = [...known, ...added];
+  }
+
+  return {
+    queue: restored,
+    currentIndex: current ? restored.indexOf(current) : 0,
+  };
+};
+
+export const pushHistory = (history: string[], queueId: string | undefined) => {
+  if (!queueId || history[history.length - 1] === queueId) return history;
+  return [...history, queueId].slice(-MAX_HISTORY);
+};
+
+// Pops entries off the back-history until one that is still queued is found
+export const popHistory = (history: string[], queue: QueueItem[]) => {
+  const remaining = [...history];
+  while (remaining.length > 0) {
+    const queueId = remaining.pop()!;
+    const index = queue.findIndex((item) => item.queueId === queueId);
+    if (index !== -1) return { index, history: remaining };
+  }
+  return { index: -1, history: remaining };
+};
@@ -0,0 +1,15 @@
+import { formatTime } from "@/lib/player";
+
+// Either a fixed time, or "stop when the song playing now finishes"
+export type SleepTimer =
+  | { kind: "time"; endsAt: number }
+  | { kind: "endOfSong"; queueId: string };
+
+export const SLEEP_TIMER_MINUTES = [15, 30, 45, 60, 90];
+
+// "Off", "End of song" or a countdown like "12:30 left"
+export const describeSleepTimer = (timer: SleepTimer | null, remaining: number | null) => {
+  if (!timer) return "Off";
+  if (timer.kind === "endOfSong") return "End of song";
+  return `${formatTime(remaining ?? 0)} left`;
+};
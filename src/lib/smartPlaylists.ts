@@ -0,0 +1,189 @@
+import { Song } from "@/lib/player";
+import { fisherYates } from "@/lib/shuffle";
+
+export type SmartField = "title" | "artist" | "category" | "added" | "liked" | "last_played" | "plays" | "duration";
+
+export type SmartOperator =
+  | "contains"
+  | "not_contains"
+  | "is"
+  | "is_not"
+  | "within_days"
+  | "not_within_days"
+  | "greater_than"
+  | "less_than";
+
+export type SmartSort = "plays" | "added" | "last_played" | "title" | "artist" | "random";
+
+export interface SmartRule {
+  field: SmartField;
+  operator: SmartOperator;
+  // Text, category id or number depending on the field; unused for "liked"
+  value: string | number | null;
+}
+
+// Stored as JSON in playlists.rules
+export interface SmartRules {
+  match: "all" | "any";
+  rules: SmartRule[];
+  limit: number | null;
+  sort: SmartSort;
+}
+
+// Songs are re-evaluated when a smart playlist is older than this
+export const SMART_REFRESH_INTERVAL = 60 * 60 * 1000;
+
+export const SMART_MAX_LIMIT = 500;
+
+export const smartFields: Record<
+  SmartField,
+  { label: string; operators: SmartOperator[]; input: "text" | "category" | "days" | "number" | "none" }
+> = {
+  title: { label: "Title", operators: ["contains", "not_contains", "is", "is_not"], input: "text" },
+  artist: { label: "Artist", operators: ["contains", "not_contains", "is", "is_not"], input: "text" },
+  category: { label: "Category", operators: ["is", "is_not"], input: "category" },
+  added: { label: "Added", operators: ["within_days", "not_within_days"], input: "days" },
+  liked: { label: "Liked", operators: ["is", "is_not"], input: "none" },
+  last_played: { label: "Played", operators: ["within_days", "not_within_days"], input: "days" },
+  plays: { label: "My plays", operators: ["greater_than", "less_than", "is"], input: "number" },
+  duration: { label: "Duration (seconds)", operators: ["greater_than", "less_than"], input: "number" },
+};
+
+export const operatorLabels: Record<SmartOperator, string> = {
+  contains: "contains",
+  not_contains: "does not contain",
+  is: "is",
+  is_not: "is not",
+  within_days: "in the last",
+  not_within_days: "not in the last",
+  greater_than: "is more than",
+  less_than: "is less than",
+};
+
+export const sortLabels: Record<SmartSort, string> = {
+  plays: "Most played",
+  added: "Recently added",
+  last_played: "Recently played",
+  title: "Title",
+  artist: "Artist",
+  random: "Random",
+};
+
+export const DEFAULT_SMART_RULES: SmartRules = {
+  match: "all",
+  rules: [{ field: "added", operator: "within_days", value: 30 }],
+  limit: 50,
+  sort: "added",
+};
+
+export const defaultRuleFor = (field: SmartField): SmartRule => {
+  const { operators, input } = smartFields[field];
+  return {
+    field,
+    operator: operators[0],
+    value: input === "days" ? 30 : input === "number" ? 0 : input === "none" ? null : "",
+  };
+};
+
+// Reads a stored rule definition, dropping anything unrecognised
+export const parseRules = (value: unknown): SmartRules | null => {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const source = value as Record<string, unknown>;
+  const rules = (Array.isArray(source.rules) ? source.rules : []).filter(
+    (rule): rule is SmartRule =>
+      !!rule && rule.field in smartFields && smartFields[rule.field as SmartField].operators.includes(rule.operator)
+  );
+  const limit = Number(source.limit);
+  return {
+    match: source.match === "any" ? "any" : "all",
+    rules,
+    limit: limit > 0 ? Math.min(Math.round(limit), SMART_MAX_LIMIT) : null,
+    sort: (source.sort as SmartSort) in sortLabels ? (source.sort as SmartSort) : "added",
+  };
+};
+
+export interface SongActivity {
+  plays: number;
+  lastPlayed: number | null;
+}
+
+// Everything rules are evaluated against
+export interface SmartContext {
+  songs: Song[];
+  likedIds: Set<string>;
+  // The signed-in user's listening history, per song
+  activity: Map<string, SongActivity>;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const normalize = (value: string | null | undefined) => (value || "").trim().toLowerCase();
+
+const matchesRule = (song: Song, rule: SmartRule, context: SmartContext, now: number) => {
+  const activity = context.activity.get(song.id);
+  const number = Number(rule.value) || 0;
+
+  switch (rule.field) {
+    case "title":
+    case "artist": {
+      const text = normalize(rule.field === "title" ? song.title : song.artist);
+      const value = normalize(String(rule.value ?? ""));
+      if (rule.operator === "contains") return text.includes(value);
+      if (rule.operator === "not_contains") return !text.includes(value);
+      return rule.operator === "is" ? text === value : text !== value;
+    }
+    case "category":
+      return rule.operator === "is" ? song.category_id === rule.value : song.category_id !== rule.value;
+    case "liked":
+      return rule.operator === "is" ? context.likedIds.has(song.id) : !context.likedIds.has(song.id);
+    case "added":
+    case "last_played": {
+      const time = rule.field === "added"
+        ? (song.created_at ? new Date(song.created_at).getTime() : null)
+        : activity?.lastPlayed ?? null;
+      const within = time !== null && now - time <= number * DAY;
+      return rule.operator === "within_days" ? within : !within;
+    }
+    case "plays":
+    case "duration": {
+      const value = rule.field === "plays" ? activity?.plays || 0 : song.duration;
+      if (value === null || value === undefined) return false;
+      if (rule.operator === "greater_than") return value > number;
+      if (rule.operator === "less_than") return value < number;
+      return value === number;
+    }
+    default:
+      return true;
+  }
+};
+
+const compareBy = (sort: SmartSort, context: SmartContext) => (a: Song, b: Song) => {
+  const activityA = context.activity.get(a.id);
+  const activityB = context.activity.get(b.id);
+  switch (sort) {
+    case "plays":
+      return (activityB?.plays || 0) - (activityA?.plays || 0);
+    case "last_played":
+      return (activityB?.lastPlayed || 0) - (activityA?.lastPlayed || 0);
+    case "title":
+      return a.title.localeCompare(b.title);
+    case "artist":
+      return (a.artist || "").localeCompare(b.artist || "") || a.title.localeCompare(b.title);
+    default:
+      return (b.created_at || "").localeCompare(a.created_at || "");
+  }
+};
+
+export const evaluateRules = (rules: SmartRules, context: SmartContext, now = Date.now()): Song[] => {
+  const matched = context.songs.filter((song) => {
+    if (rules.rules.length === 0) return true;
+    const test = (rule: SmartRule) => matchesRule(song, rule, context, now);
+    return rules.match === "any" ? rules.rules.some(test) : rules.rules.every(test);
+  });
+
+  const sorted = rules.sort === "random" ? fisherYates(matched) : [...matched].sort(compareBy(rules.sort, context));
+
+  return sorted.slice(0, rules.limit || SMART_MAX_LIMIT);
+};
+
+export const usesLikes = (rules: SmartRules) => rules.rules.some((rule) => rule.field === "liked");
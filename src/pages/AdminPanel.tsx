@@ -10,8 +10,12 @@ import { Badge } from "@/components/ui/badge";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Trash2, Edit, Ban, Shield } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Trash2, Edit, Ban, Shield, AudioLines, Merge, ImageDown } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { gainForLoudness, measureLoudness } from "@/lib/loudness";
+import { findDuplicateArtists } from "@/lib/artists";
+import { saveEmbeddedArtwork } from "@/lib/artwork";
 
 interface Category {
   id: string;
@@ -27,6 +31,15 @@ interface Song {
   category_id?: string;
   uploaded_by?: string;
   created_at: string;
+  loudness_lufs?: number | null;
+  replaygain_track_gain?: number | null;
+  artwork_url?: string | null;
+}
+
+interface Artist {
+  id: string;
+  name: string;
+  creditCount: number;
 }
 
 interface User {
@@ -60,8 +73,21 @@ export const AdminPanel = () => {
     description: ""
   });
   
+  // Artist and album management
+  const [artists, setArtists] = useState<Artist[]>([]);
+  const [artistFilter, setArtistFilter] = useState("");
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [newAlbum, setNewAlbum] = useState({
+    title: "",
+    artist_id: "",
+    release_year: ""
+  });
+  
   // User management
   const [users, setUsers] = useState<User[]>([]);
+  const [analyzingIds, setAnalyzingIds] = useState<string[]>([]);
+  const [extractingIds, setExtractingIds] = useState<string[]>([]);
 
   useEffect(() => {
     checkAdminRole();
@@ -105,6 +131,7 @@ export const AdminPanel = () => {
     await Promise.all([
       loadSongs(),
       loadCategories(),
+      loadArtists(),
       loadUsers()
     ]);
   };
@@ -146,6 +173,27 @@ export const AdminPanel = () => {
     }
   };
 
+  const loadArtists = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("artists")
+        .select("id, name, song_credits(count)")
+        .order("name");
+      
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      } else {
+        setArtists((data || []).map((artist) => ({
+          id: artist.id,
+          name: artist.name,
+          creditCount: artist.song_credits[0]?.count || 0
+        })));
+      }
+    } catch (error) {
+      console.error("Error loading artists:", error);
+    }
+  };
+
   const loadUsers = async () => {
     try {
       const { data, error } = await supabase
@@ -184,13 +232,17 @@ export const AdminPanel = () => {
     }
 
     try {
-      const { error } = await supabase.from("songs").insert({
-        title: newSong.title,
-        artist: newSong.artist || null,
-        url: newSong.url,
-        category_id: newSong.category_id || null,
-        uploaded_by: user?.id,
-      });
+      const { data, error } = await supabase
+        .from("songs")
+        .insert({
+          title: newSong.title,
+          artist: newSong.artist || null,
+          url: newSong.url,
+          category_id: newSong.category_id || null,
+          uploaded_by: user?.id,
+        })
+        .select()
+        .single();
 
       if (error) {
         toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -198,6 +250,10 @@ export const AdminPanel = () => {
         toast({ title: "Success", description: "Song added successfully!" });
         setNewSong({ title: "", artist: "", url: "", category_id: "" });
         loadSongs();
+        // Picks up the file's embedded cover in the background; songs without one use generated art
+        saveEmbeddedArtwork(user.id, data)
+          .then((artworkUrl) => artworkUrl && loadSongs())
+          .catch((error) => console.error(`Error extracting artwork for "${data.title}":`, error));
       }
     } catch (error) {
       console.error("Error adding song:", error);
@@ -225,6 +281,71 @@ export const AdminPanel = () => {
     }
   };
 
+  // Measures songs one at a time; decoding a whole song is memory heavy
+  const analyzeLoudness = async (songsToAnalyze: Song[]) => {
+    if (songsToAnalyze.length === 0) return;
+    setAnalyzingIds(songsToAnalyze.map((song) => song.id));
+
+    let failed = 0;
+    for (const song of songsToAnalyze) {
+      try {
+        const loudness = await measureLoudness(song.url);
+        const { error } = await supabase
+          .from("songs")
+          .update({
+            loudness_lufs: loudness,
+            replaygain_track_gain: gainForLoudness(loudness),
+            loudness_analyzed_at: new Date().toISOString(),
+          })
+          .eq("id", song.id);
+
+        if (error) throw error;
+      } catch (error) {
+        console.error(`Error analyzing "${song.title}":`, error);
+        failed++;
+      }
+      setAnalyzingIds((prev) => prev.filter((id) => id !== song.id));
+    }
+
+    if (failed > 0) {
+      toast({
+        title: "Analysis incomplete",
+        description: `${failed} of ${songsToAnalyze.length} songs could not be analyzed. Their links may not allow cross-origin downloads.`,
+        variant: "destructive",
+      });
+    } else {
+      toast({ title: "Success", description: "Loudness analysis complete!" });
+    }
+    loadSongs();
+  };
+
+  // Like loudness analysis, this downloads each song in full, one at a time
+  const extractSongArtwork = async (songsToExtract: Song[]) => {
+    if (songsToExtract.length === 0) return;
+    setExtractingIds(songsToExtract.map((song) => song.id));
+
+    let found = 0;
+    let failed = 0;
+    for (const song of songsToExtract) {
+      try {
+        if (await saveEmbeddedArtwork(user.id, song)) found++;
+      } catch (error) {
+        console.error(`Error extracting artwork for "${song.title}":`, error);
+        failed++;
+      }
+      setExtractingIds((prev) => prev.filter((id) => id !== song.id));
+    }
+
+    toast({
+      title: failed > 0 ? "Extraction incomplete" : "Success",
+      description:
+        `Found artwork in ${found} of ${songsToExtract.length} songs.` +
+        (failed > 0 ? ` ${failed} could not be downloaded; their links may not allow cross-origin downloads.` : ""),
+      variant: failed > 0 ? "destructive" : "default",
+    });
+    loadSongs();
+  };
+
   const addCategory = async () => {
     if (!newCategory.name) {
       toast({ title: "Error", description: "Category name is required", variant: "destructive" });
@@ -269,6 +390,66 @@ export const AdminPanel = () => {
     }
   };
 
+  const mergeArtists = async (targetId: string, sourceIds: string[]) => {
+    const target = artists.find((artist) => artist.id === targetId);
+    const sources = sourceIds.filter((id) => id !== targetId);
+    if (!target || sources.length === 0) return;
+    if (!confirm(`Merge ${sources.length} artist(s) into "${target.name}"? Their songs and albums will move to "${target.name}".`)) return;
+
+    try {
+      const { error } = await supabase.rpc("merge_artists", {
+        _target_id: targetId,
+        _source_ids: sources,
+      });
+
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      } else {
+        toast({ title: "Success", description: `Merged into ${target.name}` });
+        setMergeIds([]);
+        setMergeTargetId("");
+        loadArtists();
+        loadSongs();
+      }
+    } catch (error) {
+      console.error("Error merging artists:", error);
+    }
+  };
+
+  const toggleMergeId = (artistId: string, checked: boolean) => {
+    setMergeIds((prev) => (checked ? [...prev, artistId] : prev.filter((id) => id !== artistId)));
+    if (!checked && mergeTargetId === artistId) setMergeTargetId("");
+  };
+
+  const addAlbum = async () => {
+    if (!newAlbum.title) {
+      toast({ title: "Error", description: "Album title is required", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("albums")
+        .insert({
+          title: newAlbum.title,
+          artist_id: newAlbum.artist_id || null,
+          release_year: newAlbum.release_year ? Number(newAlbum.release_year) : null,
+        })
+        .select("id")
+        .single();
+
+      if (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+      } else {
+        toast({ title: "Success", description: "Album created! Add its tracks from the album page." });
+        setNewAlbum({ title: "", artist_id: "", release_year: "" });
+        navigate(`/album/${data.id}`);
+      }
+    } catch (error) {
+      console.error("Error adding album:", error);
+    }
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -284,8 +465,13 @@ export const AdminPanel = () => {
     return null;
   }
 
+  const duplicateArtists = findDuplicateArtists(artists);
+  const visibleArtists = artists.filter((artist) =>
+    artist.name.toLowerCase().includes(artistFilter.trim().toLowerCase())
+  );
+
   return (
-    <div className="min-h-screen bg-background p-6">
+    <div className="min-h-screen bg-background p-6 pb-24">
       <div className="max-w-6xl mx-auto">
         <div className="flex items-center justify-between mb-6">
           <h1 className="text-3xl font-bold">Admin Panel</h1>
@@ -295,9 +481,10 @@ export const AdminPanel = () => {
         </div>
 
         <Tabs defaultValue="songs" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="songs">Songs</TabsTrigger>
             <TabsTrigger value="categories">Categories</TabsTrigger>
+            <TabsTrigger value="artists">Artists</TabsTrigger>
             <TabsTrigger value="users">Users</TabsTrigger>
             <TabsTrigger value="settings">Settings</TabsTrigger>
           </TabsList>
@@ -360,20 +547,59 @@ export const AdminPanel = () => {
 
             <Card>
               <CardHeader>
-                <CardTitle>Manage Songs ({songs.length})</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Manage Songs ({songs.length})</CardTitle>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={extractingIds.length > 0}
+                      onClick={() => extractSongArtwork(songs.filter((song) => !song.artwork_url))}
+                    >
+                      <ImageDown className="h-4 w-4 mr-2" />
+                      {extractingIds.length > 0 ? `Extracting (${extractingIds.length} left)` : "Extract Artwork"}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={analyzingIds.length > 0}
+                      onClick={() => analyzeLoudness(songs.filter((song) => song.loudness_lufs == null))}
+                    >
+                      <AudioLines className="h-4 w-4 mr-2" />
+                      {analyzingIds.length > 0 ? `Analyzing (${analyzingIds.length} left)` : "Analyze Loudness"}
+                    </Button>
+                  </div>
+                </div>
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
                   {songs.map((song) => (
-                    <div key={song.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div key={song.id} className="flex items-center justify-between gap-4 p-4 border rounded-lg">
+                      {song.artwork_url && (
+                        <img src={song.artwork_url} alt="" className="h-12 w-12 shrink-0 rounded object-cover" />
+                      )}
                       <div className="flex-1">
                         <h3 className="font-semibold">{song.title}</h3>
                         {song.artist && <p className="text-sm text-muted-foreground">{song.artist}</p>}
                         <p className="text-xs text-muted-foreground">
                           Added: {new Date(song.created_at).toLocaleDateString()}
                         </p>
+                        <p className="text-xs text-muted-foreground">
+                          {song.loudness_lufs != null
+                            ? `Loudness: ${song.loudness_lufs.toFixed(1)} LUFS (gain ${song.replaygain_track_gain?.toFixed(1) ?? 0} dB)`
+                            : "Loudness: not analyzed"}
+                        </p>
                       </div>
                       <div className="flex items-center gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Analyze loudness"
+                          disabled={analyzingIds.length > 0}
+                          onClick={() => analyzeLoudness([song])}
+                        >
+                          <AudioLines className="h-4 w-4" />
+                        </Button>
                         <Button
                           size="sm"
                           variant="destructive"
@@ -447,6 +673,138 @@ export const AdminPanel = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="artists" className="space-y-6">
+            {duplicateArtists.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Possible Duplicates ({duplicateArtists.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-4">
+                    {duplicateArtists.map((group) => {
+                      // Keep the spelling with the most credits
+                      const target = [...group].sort((a, b) => b.creditCount - a.creditCount)[0];
+                      return (
+                        <div key={target.id} className="flex items-center justify-between p-4 border rounded-lg">
+                          <div className="flex flex-wrap gap-2">
+                            {group.map((artist) => (
+                              <Badge key={artist.id} variant={artist.id === target.id ? "default" : "secondary"}>
+                                {artist.name} ({artist.creditCount})
+                              </Badge>
+                            ))}
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => mergeArtists(target.id, group.map((artist) => artist.id))}
+                          >
+                            <Merge className="h-4 w-4 mr-2" />
+                            Merge into {target.name}
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Manage Artists ({artists.length})</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input
+                  value={artistFilter}
+                  onChange={(e) => setArtistFilter(e.target.value)}
+                  placeholder="Filter artists"
+                />
+                {mergeIds.length > 1 && (
+                  <div className="flex items-center gap-2 p-4 border rounded-lg">
+                    <span className="text-sm">Merge {mergeIds.length} artists into</span>
+                    <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Artist to keep" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {artists.filter((artist) => mergeIds.includes(artist.id)).map((artist) => (
+                          <SelectItem key={artist.id} value={artist.id}>
+                            {artist.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" disabled={!mergeTargetId} onClick={() => mergeArtists(mergeTargetId, mergeIds)}>
+                      <Merge className="h-4 w-4 mr-2" />
+                      Merge
+                    </Button>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  {visibleArtists.map((artist) => (
+                    <div key={artist.id} className="flex items-center gap-3 p-3 border rounded-lg">
+                      <Checkbox
+                        checked={mergeIds.includes(artist.id)}
+                        onCheckedChange={(checked) => toggleMergeId(artist.id, checked === true)}
+                      />
+                      <Link to={`/artist/${artist.id}`} className="flex-1 font-semibold hover:underline">
+                        {artist.name}
+                      </Link>
+                      <span className="text-sm text-muted-foreground">{artist.creditCount} credits</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Add New Album</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="albumTitle">Album Title *</Label>
+                    <Input
+                      id="albumTitle"
+                      value={newAlbum.title}
+                      onChange={(e) => setNewAlbum(prev => ({ ...prev, title: e.target.value }))}
+                      placeholder="Enter album title"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="albumYear">Release Year</Label>
+                    <Input
+                      id="albumYear"
+                      type="number"
+                      value={newAlbum.release_year}
+                      onChange={(e) => setNewAlbum(prev => ({ ...prev, release_year: e.target.value }))}
+                      placeholder="e.g. 2024"
+                    />
+                  </div>
+                </div>
+                <div>
+                  <Label htmlFor="albumArtist">Artist</Label>
+                  <Select value={newAlbum.artist_id} onValueChange={(value) => setNewAlbum(prev => ({ ...prev, artist_id: value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select artist" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {artists.map((artist) => (
+                        <SelectItem key={artist.id} value={artist.id}>
+                          {artist.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={addAlbum} className="w-full">
+                  Add Album
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
           <TabsContent value="users" className="space-y-6">
             <Card>
               <CardHeader>
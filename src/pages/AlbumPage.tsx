@@ -0,0 +1,251 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SongMenu } from "@/components/SongMenu";
+import { Disc, Play, Shuffle, X } from "lucide-react";
+import { formatDuration, formatTime, Song } from "@/lib/player";
+import { fisherYates } from "@/lib/shuffle";
+
+type Album = Tables<"albums"> & { artists: { id: string; name: string } | null };
+
+export const AlbumPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [album, setAlbum] = useState<Album | null>(null);
+  const [tracks, setTracks] = useState<Song[]>([]);
+  // The artist's songs that aren't on this album, offered to admins as tracks to add
+  const [candidates, setCandidates] = useState<Song[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setIsAdmin(false);
+      return;
+    }
+
+    const checkAdminStatus = async () => {
+      const { data, error } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      if (error) {
+        console.error("Error checking admin status:", error);
+      }
+      setIsAdmin(!!data);
+    };
+
+    checkAdminStatus();
+  }, [user]);
+
+  const loadTracks = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("songs")
+      .select("*")
+      .eq("album_id", id)
+      .order("track_number", { ascending: true, nullsFirst: false })
+      .order("title");
+    if (error) {
+      console.error("Error loading tracks:", error);
+    }
+    setTracks(data || []);
+  }, [id]);
+
+  useEffect(() => {
+    const loadAlbum = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.from("albums").select("*, artists(id, name)").eq("id", id).maybeSingle();
+      if (error) {
+        console.error("Error loading album:", error);
+      }
+      setAlbum(data);
+      await loadTracks();
+      setLoading(false);
+    };
+
+    loadAlbum();
+  }, [id, loadTracks]);
+
+  useEffect(() => {
+    if (!isAdmin || !album?.artist_id) {
+      setCandidates([]);
+      return;
+    }
+
+    const loadCandidates = async () => {
+      const { data, error } = await supabase
+        .from("song_credits")
+        .select("songs(*)")
+        .eq("artist_id", album.artist_id)
+        .eq("role", "primary");
+      if (error) {
+        console.error("Error loading artist songs:", error);
+      }
+      const trackIds = new Set(tracks.map((track) => track.id));
+      setCandidates(
+        (data || [])
+          .map((credit) => credit.songs)
+          .filter((song) => song && !trackIds.has(song.id))
+          .sort((a, b) => a.title.localeCompare(b.title))
+      );
+    };
+
+    loadCandidates();
+  }, [isAdmin, album?.artist_id, tracks]);
+
+  const addTrack = async (songId: string) => {
+    const trackNumber = Math.max(0, ...tracks.map((track) => track.track_number || 0)) + 1;
+    const { error } = await supabase.from("songs").update({ album_id: id, track_number: trackNumber }).eq("id", songId);
+    if (error) {
+      toast({ title: "Error adding track", description: error.message, variant: "destructive" });
+      return;
+    }
+    loadTracks();
+  };
+
+  const removeTrack = async (songId: string) => {
+    const { error } = await supabase.from("songs").update({ album_id: null, track_number: null }).eq("id", songId);
+    if (error) {
+      toast({ title: "Error removing track", description: error.message, variant: "destructive" });
+      return;
+    }
+    loadTracks();
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading album...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!album) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <Disc className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Album not found</h1>
+          <Button onClick={() => navigate("/")} variant="outline">
+            Go to Player
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const knownDuration = tracks.reduce((total, song) => total + (song.duration || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-6 mb-6">
+          <div className="h-40 w-40 shrink-0 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Disc className="h-16 w-16 text-primary" />
+          </div>
+          <div className="min-w-0 space-y-2">
+            <p className="text-sm text-muted-foreground">Album</p>
+            <h1 className="text-3xl font-bold break-words">{album.title}</h1>
+            <p className="text-sm text-muted-foreground">
+              {album.artists ? (
+                <Link to={`/artist/${album.artists.id}`} className="hover:underline">
+                  {album.artists.name}
+                </Link>
+              ) : (
+                "Unknown Artist"
+              )}
+              {album.release_year && ` · ${album.release_year}`}
+              {` · ${tracks.length} songs`}
+              {knownDuration > 0 && ` · ${formatDuration(knownDuration)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button onClick={() => player.loadQueue(tracks, 0, true, "library")} disabled={tracks.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Play
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => player.loadQueue(fisherYates(tracks), 0, true, "library")}
+            disabled={tracks.length === 0}
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            Shuffle
+          </Button>
+          {isAdmin && candidates.length > 0 && (
+            <Select value="" onValueChange={addTrack}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Add a track" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((song) => (
+                  <SelectItem key={song.id} value={song.id}>
+                    {song.title}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="p-2">
+            {tracks.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No tracks on this album yet</p>
+            ) : (
+              tracks.map((song, index) => (
+                <div
+                  key={song.id}
+                  className={`flex items-center gap-3 p-2 rounded cursor-pointer ${
+                    song.id === player.currentSong?.id ? "bg-primary text-primary-foreground" : "hover:bg-secondary"
+                  }`}
+                  onClick={() => player.loadQueue(tracks, index, true, "library")}
+                >
+                  <span className="w-6 text-right text-sm opacity-70">{song.track_number || index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{song.title}</p>
+                    <p className="text-xs opacity-70 truncate">{song.artist || "Unknown Artist"}</p>
+                  </div>
+                  {song.duration ? <span className="text-sm opacity-70">{formatTime(song.duration)}</span> : null}
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title="Remove from album"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeTrack(song.id);
+                      }}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <SongMenu song={song} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
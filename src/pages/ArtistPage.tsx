@@ -0,0 +1,194 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { usePlayer } from "@/hooks/usePlayer";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { SongMenu } from "@/components/SongMenu";
+import { Disc, Play, Shuffle, User } from "lucide-react";
+import { formatTime, Song } from "@/lib/player";
+import { fisherYates } from "@/lib/shuffle";
+import { CreditRole, creditRoleLabels } from "@/lib/artists";
+
+export const ArtistPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const player = usePlayer();
+  const navigate = useNavigate();
+  const [artist, setArtist] = useState<Tables<"artists"> | null>(null);
+  const [credits, setCredits] = useState<{ role: CreditRole; song: Song }[]>([]);
+  const [albums, setAlbums] = useState<Tables<"albums">[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const loadArtist = async () => {
+      setLoading(true);
+      const [artistResult, creditsResult, albumsResult] = await Promise.all([
+        supabase.from("artists").select("*").eq("id", id).maybeSingle(),
+        supabase.from("song_credits").select("role, position, songs(*)").eq("artist_id", id),
+        supabase.from("albums").select("*").eq("artist_id", id).order("release_year", { ascending: false }),
+      ]);
+      if (artistResult.error) {
+        console.error("Error loading artist:", artistResult.error);
+      }
+      if (creditsResult.error) {
+        console.error("Error loading credits:", creditsResult.error);
+      }
+      if (albumsResult.error) {
+        console.error("Error loading albums:", albumsResult.error);
+      }
+
+      setArtist(artistResult.data);
+      setCredits(
+        (creditsResult.data || [])
+          .filter((credit) => credit.songs)
+          .map((credit) => ({ role: credit.role, song: credit.songs }))
+          .sort((a, b) => a.song.title.localeCompare(b.song.title))
+      );
+      setAlbums(albumsResult.data || []);
+      setLoading(false);
+    };
+
+    loadArtist();
+  }, [id]);
+
+  const sections = useMemo(
+    () =>
+      (Object.keys(creditRoleLabels) as CreditRole[])
+        .map((role) => ({ role, songs: credits.filter((credit) => credit.role === role).map((credit) => credit.song) }))
+        .filter((section) => section.songs.length > 0),
+    [credits]
+  );
+
+  // Songs they perform on, once each; writing credits alone don't count
+  const performed = useMemo(() => {
+    const seen = new Set<string>();
+    return credits
+      .filter((credit) => credit.role === "primary" || credit.role === "featured")
+      .map((credit) => credit.song)
+      .filter((song) => !seen.has(song.id) && seen.add(song.id));
+  }, [credits]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading artist...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!artist) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <User className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Artist not found</h1>
+          <Button onClick={() => navigate("/")} variant="outline">
+            Go to Player
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-6 mb-6">
+          <div className="h-40 w-40 shrink-0 rounded-full bg-primary/10 flex items-center justify-center">
+            <User className="h-16 w-16 text-primary" />
+          </div>
+          <div className="min-w-0 space-y-2">
+            <p className="text-sm text-muted-foreground">Artist</p>
+            <h1 className="text-3xl font-bold break-words">{artist.name}</h1>
+            {artist.bio && <p className="text-muted-foreground whitespace-pre-line">{artist.bio}</p>}
+            <p className="text-sm text-muted-foreground">
+              {performed.length} songs
+              {albums.length > 0 && ` · ${albums.length} albums`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button onClick={() => player.loadQueue(performed, 0, true, "library")} disabled={performed.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Play all
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => player.loadQueue(fisherYates(performed), 0, true, "library")}
+            disabled={performed.length === 0}
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            Shuffle
+          </Button>
+        </div>
+
+        {albums.length > 0 && (
+          <div className="mb-6">
+            <h2 className="text-lg font-semibold mb-3">Albums</h2>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+              {albums.map((album) => (
+                <Link key={album.id} to={`/album/${album.id}`}>
+                  <Card className="hover:bg-secondary transition-colors">
+                    <CardContent className="p-3">
+                      <div className="aspect-square rounded bg-primary/10 flex items-center justify-center mb-2">
+                        <Disc className="h-10 w-10 text-primary" />
+                      </div>
+                      <p className="truncate font-medium">{album.title}</p>
+                      {album.release_year && <p className="text-xs text-muted-foreground">{album.release_year}</p>}
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {sections.length === 0 ? (
+          <Card>
+            <CardContent className="p-2">
+              <p className="text-center text-muted-foreground py-8">No songs credited to this artist yet</p>
+            </CardContent>
+          </Card>
+        ) : (
+          sections.map(({ role, songs }) => (
+            <div key={role} className="mb-6">
+              <h2 className="text-lg font-semibold mb-3">{creditRoleLabels[role]}</h2>
+              <Card>
+                <CardContent className="p-2">
+                  {songs.map((song, index) => (
+                    <div
+                      key={song.id}
+                      className={`flex items-center gap-3 p-2 rounded cursor-pointer ${
+                        song.id === player.currentSong?.id ? "bg-primary text-primary-foreground" : "hover:bg-secondary"
+                      }`}
+                      onClick={() => player.loadQueue(songs, index, true, "library")}
+                    >
+                      <span className="w-6 text-right text-sm opacity-70">{index + 1}</span>
+                      <div className="flex-1 min-w-0">
+                        <p className="truncate">{song.title}</p>
+                        <p className="text-xs opacity-70 truncate">{song.artist || "Unknown Artist"}</p>
+                      </div>
+                      {song.duration ? <span className="text-sm opacity-70">{formatTime(song.duration)}</span> : null}
+                      <SongMenu song={song} />
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { useLikes } from "@/hooks/useLikes";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useRadio } from "@/hooks/useRadio";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SongMenu } from "@/components/SongMenu";
+import { Folder, Heart, Play, Radio, Shuffle, Square } from "lucide-react";
+import { formatDuration, formatTime, Song } from "@/lib/player";
+import { filterSongs } from "@/lib/search";
+import { fisherYates } from "@/lib/shuffle";
+
+type CategorySort = "newest" | "title" | "artist" | "likes";
+
+const sortLabels: Record<CategorySort, string> = {
+  newest: "Recently added",
+  title: "Title",
+  artist: "Artist",
+  likes: "Most liked",
+};
+
+export const CategoryPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { isLiked } = useLikes();
+  const { station, startRadio, stopRadio } = useRadio();
+  const navigate = useNavigate();
+  const [category, setCategory] = useState<Tables<"categories"> | null>(null);
+  const [songs, setSongs] = useState<Song[]>([]);
+  const [likeCounts, setLikeCounts] = useState<Map<string, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [sort, setSort] = useState<CategorySort>("newest");
+  const [filter, setFilter] = useState("");
+  const [likedOnly, setLikedOnly] = useState(false);
+
+  useEffect(() => {
+    const loadCategory = async () => {
+      setLoading(true);
+      const [categoryResult, songsResult] = await Promise.all([
+        supabase.from("categories").select("*").eq("id", id).maybeSingle(),
+        supabase.from("songs").select("*").eq("category_id", id).order("created_at", { ascending: false }),
+      ]);
+      if (categoryResult.error) {
+        console.error("Error loading category:", categoryResult.error);
+      }
+      if (songsResult.error) {
+        console.error("Error loading songs:", songsResult.error);
+      }
+
+      const loaded = songsResult.data || [];
+      setCategory(categoryResult.data);
+      setSongs(loaded);
+
+      if (loaded.length > 0) {
+        const { data: counts } = await supabase.rpc("get_public_song_like_counts", { _song_ids: loaded.map((song) => song.id) });
+        setLikeCounts(new Map((counts || []).map((row) => [row.song_id, Number(row.likes)])));
+      } else {
+        setLikeCounts(new Map());
+      }
+      setLoading(false);
+    };
+
+    loadCategory();
+  }, [id]);
+
+  const visibleSongs = useMemo(() => {
+    const filtered = filterSongs(songs, filter).filter((song) => !likedOnly || isLiked(song.id));
+    switch (sort) {
+      case "title":
+        return [...filtered].sort((a, b) => a.title.localeCompare(b.title));
+      case "artist":
+        return [...filtered].sort((a, b) => (a.artist || "").localeCompare(b.artist || "") || a.title.localeCompare(b.title));
+      case "likes":
+        return [...filtered].sort((a, b) => (likeCounts.get(b.id) || 0) - (likeCounts.get(a.id) || 0));
+      default:
+        return filtered;
+    }
+  }, [songs, filter, likedOnly, isLiked, sort, likeCounts]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading category...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!category) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <Folder className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Category not found</h1>
+          <Button onClick={() => navigate("/")} variant="outline">
+            Go to Player
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const radioOn = station?.categoryId === category.id;
+  const knownDuration = songs.reduce((total, song) => total + (song.duration || 0), 0);
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-6 mb-6">
+          <div className="h-40 w-40 shrink-0 rounded-lg bg-primary/10 flex items-center justify-center">
+            <Folder className="h-16 w-16 text-primary" />
+          </div>
+          <div className="min-w-0 space-y-2">
+            <p className="text-sm text-muted-foreground">Category</p>
+            <h1 className="text-3xl font-bold break-words">{category.name}</h1>
+            {category.description && <p className="text-muted-foreground">{category.description}</p>}
+            <p className="text-sm text-muted-foreground">
+              {songs.length} songs
+              {knownDuration > 0 && ` · ${formatDuration(knownDuration)}`}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-6">
+          <Button
+            onClick={() => player.loadQueue(visibleSongs, 0, true, "category")}
+            disabled={visibleSongs.length === 0}
+          >
+            <Play className="h-4 w-4 mr-2" />
+            Play
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => player.loadQueue(fisherYates(visibleSongs), 0, true, "category")}
+            disabled={visibleSongs.length === 0}
+          >
+            <Shuffle className="h-4 w-4 mr-2" />
+            Shuffle
+          </Button>
+          {radioOn ? (
+            <Button variant="outline" onClick={stopRadio}>
+              <Square className="h-4 w-4 mr-2" />
+              Stop radio
+            </Button>
+          ) : (
+            <Button
+              variant="outline"
+              onClick={() => startRadio({ categoryId: category.id, name: category.name })}
+              disabled={songs.length === 0}
+            >
+              <Radio className="h-4 w-4 mr-2" />
+              Play category radio
+            </Button>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4">
+          <Input
+            placeholder="Filter songs"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="max-w-xs"
+          />
+          <Select value={sort} onValueChange={(value: CategorySort) => setSort(value)}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(sortLabels) as CategorySort[]).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {sortLabels[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {user && (
+            <div className="flex items-center gap-2">
+              <Switch id="liked-only" checked={likedOnly} onCheckedChange={setLikedOnly} />
+              <Label htmlFor="liked-only">Liked only</Label>
+            </div>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="p-2">
+            {visibleSongs.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">
+                {songs.length === 0 ? "No songs in this category yet" : "No songs match these filters"}
+              </p>
+            ) : (
+              visibleSongs.map((song, index) => (
+                <div
+                  key={song.id}
+                  className={`flex items-center gap-3 p-2 rounded cursor-pointer ${
+                    song.id === player.currentSong?.id ? "bg-primary text-primary-foreground" : "hover:bg-secondary"
+                  }`}
+                  onClick={() => player.loadQueue(visibleSongs, index, true, "category")}
+                >
+                  <span className="w-6 text-right text-sm opacity-70">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{song.title}</p>
+                    <p className="text-xs opacity-70 truncate">{song.artist || "Unknown Artist"}</p>
+                  </div>
+                  {(likeCounts.get(song.id) || 0) > 0 && (
+                    <span className="flex items-center gap-1 text-xs opacity-70">
+                      <Heart className="h-3 w-3" />
+                      {likeCounts.get(song.id)}
+                    </span>
+                  )}
+                  {song.duration ? <span className="text-sm opacity-70">{formatTime(song.duration)}</span> : null}
+                  <SongMenu song={song} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
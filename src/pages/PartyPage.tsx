@@ -0,0 +1,276 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useParty } from "@/hooks/useParty";
+import { useProfileNames } from "@/hooks/useProfileNames";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Check, Crown, Link2, LogOut, PartyPopper, Plus, X } from "lucide-react";
+import { formatTime, Song } from "@/lib/player";
+import { partyLink } from "@/lib/party";
+
+const SUGGEST_RESULTS = 20;
+
+export const PartyPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const player = usePlayer();
+  const party = useParty();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [joining, setJoining] = useState(false);
+  const [library, setLibrary] = useState<Song[]>([]);
+  const [filter, setFilter] = useState("");
+
+  const { room, role, participants, suggestions } = party;
+  const inRoom = room?.id === id;
+  const hostNames = useProfileNames(inRoom ? [room.host_id] : []);
+
+  // Guests pick suggestions from the shared library
+  useEffect(() => {
+    if (!inRoom || role !== "guest") return;
+
+    const loadLibrary = async () => {
+      const { data, error } = await supabase.from("songs").select("*").order("title");
+      if (error) {
+        console.error("Error loading songs:", error);
+        return;
+      }
+      setLibrary(data || []);
+    };
+
+    loadLibrary();
+  }, [inRoom, role]);
+
+  const matches = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    if (!query) return library.slice(0, SUGGEST_RESULTS);
+    return library
+      .filter((song) => `${song.title} ${song.artist || ""}`.toLowerCase().includes(query))
+      .slice(0, SUGGEST_RESULTS);
+  }, [library, filter]);
+
+  // Joining needs a click so the browser lets the guest's player start audio
+  const handleJoin = async () => {
+    setJoining(true);
+    await party.joinParty(id);
+    setJoining(false);
+  };
+
+  const handleLeave = async () => {
+    if (role === "host" && !confirm("End the party for everyone?")) return;
+    await party.leaveParty();
+    navigate("/");
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(partyLink(id));
+      toast({ title: "Link copied", description: "Anyone with the link can join the party" });
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  if (!inRoom) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <PartyPopper className="h-12 w-12 mx-auto text-primary mb-4" />
+          <h1 className="text-2xl font-bold mb-2">You're invited to a listening party</h1>
+          <p className="text-muted-foreground mb-4">Music plays in sync with the host once you join.</p>
+          <div className="flex justify-center gap-2">
+            <Button onClick={handleJoin} disabled={joining}>
+              {joining ? "Joining..." : "Join party"}
+            </Button>
+            <Button onClick={() => navigate("/")} variant="outline">
+              Go to Player
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!role) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <PartyPopper className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">This party has ended</h1>
+          <p className="text-muted-foreground mb-4">The host has stopped the party.</p>
+          <Button
+            onClick={() => {
+              party.leaveParty();
+              navigate("/");
+            }}
+            variant="outline"
+          >
+            Go to Player
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isHost = role === "host";
+  const hostName = isHost ? "You" : hostNames[room.host_id] || "…";
+  const { currentSong } = player;
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center justify-between">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+          <div className="flex gap-2">
+            <Button onClick={copyLink} variant="ghost">
+              <Link2 className="h-4 w-4 mr-2" />
+              Copy invite link
+            </Button>
+            <Button onClick={handleLeave} variant={isHost ? "destructive" : "outline"}>
+              <LogOut className="h-4 w-4 mr-2" />
+              {isHost ? "End party" : "Leave party"}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Badge variant="secondary">{isHost ? "You're hosting" : "Listening along"}</Badge>
+          <h1 className="text-3xl font-bold">Listening party</h1>
+          <p className="text-muted-foreground">
+            Hosted by <span className="font-medium text-foreground">{hostName}</span>
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Now playing</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {currentSong ? (
+              <div className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{currentSong.title}</p>
+                  <p className="text-sm text-muted-foreground truncate">{currentSong.artist || "Unknown Artist"}</p>
+                </div>
+                <span className="text-sm text-muted-foreground shrink-0">
+                  {formatTime(player.currentTime)} / {formatTime(player.duration)}
+                </span>
+              </div>
+            ) : (
+              <p className="text-muted-foreground">
+                {isHost ? "Play a song and everyone here will hear it" : "Waiting for the host to play something"}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Listeners ({participants.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {participants.map((participant) => {
+                const participantIsHost = participant.userId === room.host_id;
+                const canHandOff = isHost && participant.userId && !participantIsHost;
+                return (
+                  <div key={participant.clientId} className="flex items-center justify-between p-2 rounded hover:bg-secondary">
+                    <span className="truncate">
+                      {participant.userId && participant.userId === user?.id ? "You" : participant.name}
+                    </span>
+                    {participantIsHost ? (
+                      <Crown className="h-4 w-4 text-primary shrink-0" />
+                    ) : canHandOff ? (
+                      <Button variant="ghost" size="sm" onClick={() => party.handOff(participant.userId)}>
+                        Make host
+                      </Button>
+                    ) : null}
+                  </div>
+                );
+              })}
+              {isHost && participants.length <= 1 && (
+                <p className="text-sm text-muted-foreground p-2">Share the invite link so friends can join.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Suggestions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {suggestions.length === 0 && (
+                <p className="text-sm text-muted-foreground p-2">
+                  {isHost ? "Songs your guests suggest will appear here" : "Nothing suggested yet"}
+                </p>
+              )}
+              {suggestions.map((suggestion) => (
+                <div key={suggestion.id} className="flex items-center gap-2 p-2 rounded hover:bg-secondary">
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{suggestion.song.title}</p>
+                    <p className="text-xs text-muted-foreground truncate">Suggested by {suggestion.suggestedBy}</p>
+                  </div>
+                  {isHost && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => party.approveSuggestion(suggestion.id)}
+                        title="Add to queue"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => party.dismissSuggestion(suggestion.id)}
+                        title="Dismiss"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </div>
+
+        {!isHost && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Suggest a song</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Input placeholder="Search the library" value={filter} onChange={(e) => setFilter(e.target.value)} />
+              <div className="space-y-1 max-h-72 overflow-y-auto">
+                {matches.map((song) => (
+                  <div key={song.id} className="flex items-center gap-2 p-2 rounded hover:bg-secondary">
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate">{song.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">{song.artist || "Unknown Artist"}</p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => party.suggestSong(song)} title="Suggest">
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                {matches.length === 0 && <p className="text-sm text-muted-foreground p-2">No songs found</p>}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { usePlayer } from "@/hooks/usePlayer";
+import { usePlaylists } from "@/hooks/usePlaylists";
+import { useProfileNames } from "@/hooks/useProfileNames";
+import { useShareCard } from "@/hooks/useShareCard";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { SongMenu } from "@/components/SongMenu";
+import { ArtworkDialog } from "@/components/ArtworkDialog";
+import { Image, Link2, ListMusic, Play, Plus, Share2 } from "lucide-react";
+import { formatDuration, formatTime } from "@/lib/player";
+import { isCollaborative, Playlist, PLAYLIST_SELECT, toPlaylist } from "@/lib/playlists";
+import { generateArtwork, playlistArtwork } from "@/lib/artwork";
+
+// Public view of a single playlist; works for signed-out visitors too
+export const PlaylistPage = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const player = usePlayer();
+  const { createPlaylist, updatePlaylist } = usePlaylists();
+  const { sharePlaylist } = useShareCard();
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [owner, setOwner] = useState<Tables<"profiles"> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [editingArtwork, setEditingArtwork] = useState(false);
+
+  const collaborative = playlist ? isCollaborative(playlist) : false;
+  const names = useProfileNames(collaborative ? Object.values(playlist.addedBy) : []);
+
+  const loadPlaylist = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("playlists")
+      .select(PLAYLIST_SELECT)
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading playlist:", error);
+    }
+    const loaded = data ? toPlaylist(data) : null;
+    setPlaylist(loaded);
+
+    if (loaded) {
+      const { data: profile } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("user_id", loaded.user_id)
+        .maybeSingle();
+      setOwner(profile);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    setLoading(true);
+    loadPlaylist().then(() => setLoading(false));
+  }, [loadPlaylist]);
+
+  // Keep the track list live while collaborators edit it
+  useEffect(() => {
+    const channel = supabase
+      .channel(`playlist-page-${id}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "playlist_songs", filter: `playlist_id=eq.${id}` },
+        () => loadPlaylist()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [id, loadPlaylist]);
+
+  const playFrom = (index: number) => {
+    player.loadQueue(playlist.songs, index, true, "playlist");
+  };
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast({ title: "Link copied", description: "Anyone with the link can view this playlist" });
+    } catch (error) {
+      console.error("Error copying link:", error);
+    }
+  };
+
+  const saveToLibrary = async () => {
+    if (!user) {
+      navigate("/auth", { state: { from: location.pathname } });
+      return;
+    }
+
+    setSaving(true);
+    await createPlaylist(
+      { name: playlist.name, description: playlist.description, is_public: false },
+      playlist.songs
+    );
+    setSaving(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading playlist...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!playlist) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <div className="text-center">
+          <ListMusic className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <h1 className="text-2xl font-bold mb-2">Playlist not found</h1>
+          <p className="text-muted-foreground mb-4">It may have been deleted or made private.</p>
+          <Button onClick={() => navigate("/")} variant="outline">
+            Go to Player
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = user?.id === playlist.user_id;
+  const knownDuration = playlist.songs.reduce((total, song) => total + (song.duration || 0), 0);
+  const ownerName = owner?.full_name || "MJ Player user";
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-6">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+          <div className="flex gap-2">
+            <Button onClick={() => sharePlaylist(playlist)} variant="ghost">
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+            <Button onClick={copyLink} variant="ghost">
+              <Link2 className="h-4 w-4 mr-2" />
+              Copy link
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-end gap-6 mb-6">
+          <div className="relative h-40 w-40 shrink-0">
+            <img
+              src={playlistArtwork(playlist)}
+              alt={`${playlist.name} artwork`}
+              className="h-40 w-40 rounded-lg object-cover"
+            />
+            {isOwner && (
+              <Button
+                size="icon"
+                variant="secondary"
+                className="absolute bottom-2 right-2 h-8 w-8"
+                onClick={() => setEditingArtwork(true)}
+                title="Change artwork"
+              >
+                <Image className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="min-w-0 space-y-2">
+            <div className="flex gap-2">
+              <Badge variant="secondary">{playlist.is_public ? "Public playlist" : "Private playlist"}</Badge>
+              {playlist.rules && <Badge variant="outline">Smart playlist</Badge>}
+            </div>
+            <h1 className="text-3xl font-bold break-words">{playlist.name}</h1>
+            {playlist.description && <p className="text-muted-foreground">{playlist.description}</p>}
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={owner?.avatar_url || undefined} />
+                <AvatarFallback>{ownerName.charAt(0).toUpperCase()}</AvatarFallback>
+              </Avatar>
+              <span className="font-medium text-foreground">{isOwner ? "You" : ownerName}</span>
+              <span>·</span>
+              <span>{playlist.songs.length} songs</span>
+              {knownDuration > 0 && (
+                <>
+                  <span>·</span>
+                  <span>{formatDuration(knownDuration)}</span>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <Button onClick={() => playFrom(0)} disabled={playlist.songs.length === 0}>
+            <Play className="h-4 w-4 mr-2" />
+            Play All
+          </Button>
+          {!isOwner && (
+            <Button onClick={saveToLibrary} variant="outline" disabled={saving || playlist.songs.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Save to my library
+            </Button>
+          )}
+        </div>
+
+        <Card>
+          <CardContent className="p-2">
+            {playlist.songs.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">This playlist has no songs yet</p>
+            ) : (
+              playlist.songs.map((song, index) => (
+                <div
+                  key={song.id}
+                  className={`flex items-center gap-3 p-2 rounded cursor-pointer ${
+                    song.id === player.currentSong?.id ? "bg-primary text-primary-foreground" : "hover:bg-secondary"
+                  }`}
+                  onClick={() => playFrom(index)}
+                >
+                  <span className="w-6 text-right text-sm opacity-70">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="truncate">{song.title}</p>
+                    <p className="text-xs opacity-70 truncate">
+                      {song.artist || "Unknown Artist"}
+                      {collaborative && playlist.addedBy[song.id] && ` · added by ${names[playlist.addedBy[song.id]] || "…"}`}
+                    </p>
+                  </div>
+                  {song.duration ? <span className="text-sm opacity-70">{formatTime(song.duration)}</span> : null}
+                  <SongMenu song={song} />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+      <ArtworkDialog
+        open={editingArtwork}
+        onOpenChange={setEditingArtwork}
+        name={playlist.name}
+        artworkUrl={playlist.artwork_url}
+        fallbackUrl={generateArtwork(playlist.name)}
+        onSave={async (artworkUrl) => {
+          await updatePlaylist(playlist.id, { artwork_url: artworkUrl });
+          setPlaylist((prev) => (prev ? { ...prev, artwork_url: artworkUrl } : prev));
+        }}
+      />
+    </div>
+  );
+};
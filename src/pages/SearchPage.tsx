@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { usePlayer } from "@/hooks/usePlayer";
+import { useShortcut } from "@/hooks/useKeyboardShortcuts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SongMenu } from "@/components/SongMenu";
+import { Disc, Folder, ListMusic, Music, Search, User } from "lucide-react";
+import { Song } from "@/lib/player";
+import {
+  groupResults,
+  SEARCH_DEBOUNCE,
+  SEARCH_LIMIT,
+  SEARCH_MIN_LENGTH,
+  SearchResult,
+  SearchResultKind,
+  searchGroups,
+} from "@/lib/search";
+
+const kindIcons: Record<SearchResultKind, typeof Music> = {
+  song: Music,
+  artist: User,
+  album: Disc,
+  playlist: ListMusic,
+  category: Folder,
+};
+
+export const SearchPage = () => {
+  const player = usePlayer();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = searchParams.get("q") || "";
+  const [input, setInput] = useState(query);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [songs, setSongs] = useState<Record<string, Song>>({});
+  const [loading, setLoading] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useShortcut("focusSearch", () => inputRef.current?.focus());
+
+  // Back/forward and links like /search?q=... update the box
+  useEffect(() => {
+    setInput(query);
+  }, [query]);
+
+  // Keep the URL in step with what's typed, without a history entry per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (input.trim() === query) return;
+      setSearchParams(input.trim() ? { q: input.trim() } : {}, { replace: true });
+    }, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [input, query, setSearchParams]);
+
+  useEffect(() => {
+    if (query.length < SEARCH_MIN_LENGTH) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const runSearch = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc("search_library", { _query: query, _limit: SEARCH_LIMIT });
+      if (error) {
+        console.error("Error searching:", error);
+      }
+      const found = (data || []) as SearchResult[];
+
+      // Song results need the full rows to be playable
+      const songIds = found.filter((result) => result.kind === "song").map((result) => result.id);
+      let rows: Song[] = [];
+      if (songIds.length > 0) {
+        const { data: songRows, error: songsError } = await supabase.from("songs").select("*").in("id", songIds);
+        if (songsError) {
+          console.error("Error loading songs:", songsError);
+        }
+        rows = songRows || [];
+      }
+
+      if (cancelled) return;
+      setSongs(Object.fromEntries(rows.map((song) => [song.id, song])));
+      setResults(found);
+      setActiveIndex(0);
+      setLoading(false);
+    };
+
+    runSearch();
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  const groups = useMemo(() => groupResults(results), [results]);
+  // Keyboard navigation walks the groups in display order
+  const ordered = useMemo(() => searchGroups.flatMap(({ kind }) => groups[kind]), [groups]);
+  const songResults = useMemo(() => groups.song.map((result) => songs[result.id]).filter(Boolean), [groups, songs]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${activeIndex}"]`)?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  const openResult = (result: SearchResult) => {
+    switch (result.kind) {
+      case "song": {
+        const index = songResults.findIndex((song) => song.id === result.id);
+        if (index >= 0) player.loadQueue(songResults, index, true, "search");
+        return;
+      }
+      case "artist":
+        navigate(`/artist/${result.id}`);
+        return;
+      case "album":
+        navigate(`/album/${result.id}`);
+        return;
+      case "playlist":
+        navigate(`/playlist/${result.id}`);
+        return;
+      case "category":
+        navigate(`/category/${result.id}`);
+        return;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (ordered.length === 0) return;
+
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => (index + 1) % ordered.length);
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => (index - 1 + ordered.length) % ordered.length);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      openResult(ordered[activeIndex]);
+    }
+  };
+
+  const tooShort = query.length < SEARCH_MIN_LENGTH;
+
+  return (
+    <div className="min-h-screen bg-background p-6 pb-24">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center gap-2">
+          <Button onClick={() => navigate("/")} variant="outline">
+            Back to Player
+          </Button>
+        </div>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search songs, artists, playlists and categories"
+            className="pl-9"
+            role="combobox"
+            aria-expanded={ordered.length > 0}
+            aria-controls="search-results"
+            aria-activedescendant={ordered.length > 0 ? `search-result-${activeIndex}` : undefined}
+          />
+        </div>
+
+        {tooShort ? (
+          <p className="text-center text-muted-foreground py-8">
+            Type at least {SEARCH_MIN_LENGTH} characters to search
+          </p>
+        ) : loading && results.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">Searching...</p>
+        ) : ordered.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No results for "{query}"</p>
+        ) : (
+          <div id="search-results" role="listbox" ref={listRef} className="space-y-6">
+            {searchGroups.map(({ kind, label }) => {
+              if (groups[kind].length === 0) return null;
+              const Icon = kindIcons[kind];
+              return (
+                <div key={kind}>
+                  <h2 className="text-sm font-semibold text-muted-foreground mb-2">{label}</h2>
+                  <div className="space-y-1">
+                    {groups[kind].map((result) => {
+                      const index = ordered.indexOf(result);
+                      const song = result.kind === "song" ? songs[result.id] : null;
+                      return (
+                        <div
+                          key={`${kind}-${result.id || result.title}`}
+                          id={`search-result-${index}`}
+                          data-index={index}
+                          role="option"
+                          aria-selected={index === activeIndex}
+                          className={`flex items-center gap-3 p-2 rounded cursor-pointer ${
+                            index === activeIndex ? "bg-secondary" : "hover:bg-secondary"
+                          } ${song && song.id === player.currentSong?.id ? "text-primary" : ""}`}
+                          onMouseEnter={() => setActiveIndex(index)}
+                          onClick={() => openResult(result)}
+                        >
+                          <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                          <div className="flex-1 min-w-0">
+                            <p className="truncate">{result.title}</p>
+                            {result.subtitle && (
+                              <p className="text-xs text-muted-foreground truncate">{result.subtitle}</p>
+                            )}
+                          </div>
+                          {song && <SongMenu song={song} />}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
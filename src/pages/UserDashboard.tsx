@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
@@ -10,8 +10,13 @@ import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Copy, Download, Music, Users, Gift, Crown } from "lucide-react";
+import { Copy, Download, Music, Users, Gift, Crown, BarChart3 } from "lucide-react";
 import { useNavigate } from "react-router-dom";
+import { RecentlyPlayed } from "@/components/RecentlyPlayed";
+import { LikedSongs } from "@/components/LikedSongs";
+import { SongStats, SongStatsDialog } from "@/components/SongStatsDialog";
+import { formatPercent } from "@/lib/player";
+import { ARTWORK_TYPES, extractArtwork, saveSongArtwork, validateArtwork } from "@/lib/artwork";
 
 interface UserSubscription {
   id: string;
@@ -30,6 +35,7 @@ interface UserSong {
   category_id?: string;
   created_at: string;
   plays: number;
+  stats?: SongStats;
 }
 
 interface ReferralStats {
@@ -53,6 +59,7 @@ export const UserDashboard = () => {
     pending_withdrawals: 0
   });
   const [categories, setCategories] = useState<any[]>([]);
+  const [statsSong, setStatsSong] = useState<UserSong | null>(null);
   
   // Premium upload form
   const [newSong, setNewSong] = useState({
@@ -61,6 +68,9 @@ export const UserDashboard = () => {
     url: "",
     category_id: ""
   });
+  // Optional cover; without one the song file's embedded cover is used, if it has one
+  const [newSongArtwork, setNewSongArtwork] = useState<File | null>(null);
+  const artworkInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     if (!user) {
@@ -109,10 +119,32 @@ export const UserDashboard = () => {
       if (error) {
         toast({ title: "Error", description: error.message, variant: "destructive" });
       } else {
+        const songs = data || [];
+        const songStats = new Map<string, SongStats>();
+        if (songs.length > 0) {
+          const songIds = songs.map(song => song.id);
+          const [{ data: stats, error: statsError }, { data: likes, error: likesError }] = await Promise.all([
+            supabase.rpc("get_song_stats", { _song_ids: songIds }),
+            supabase.rpc("get_song_like_counts", { _song_ids: songIds }),
+          ]);
+          if (statsError || likesError) {
+            console.error("Error loading song stats:", statsError || likesError);
+          }
+          const likeCounts = new Map((likes || []).map(row => [row.song_id, row.likes]));
+          songIds.forEach(id => songStats.set(id, { plays: 0, listeners: 0, listenThrough: null, likes: likeCounts.get(id) || 0 }));
+          (stats || []).forEach(row => songStats.set(row.song_id, {
+            plays: row.total_plays,
+            listeners: row.unique_listeners,
+            listenThrough: row.avg_listen_through,
+            likes: likeCounts.get(row.song_id) || 0,
+          }));
+        }
+
         // Transform data to match UserSong interface
-        const transformedSongs = (data || []).map(song => ({
+        const transformedSongs = songs.map(song => ({
           ...song,
-          plays: 0 // Default value since plays tracking will be implemented later
+          plays: songStats.get(song.id)?.plays || 0,
+          stats: songStats.get(song.id),
         }));
         setUserSongs(transformedSongs);
       }
@@ -175,22 +207,54 @@ export const UserDashboard = () => {
       return;
     }
 
+    const artwork = newSongArtwork;
+    if (artwork) {
+      try {
+        validateArtwork(artwork);
+      } catch (error) {
+        toast({ title: "Error", description: error.message, variant: "destructive" });
+        return;
+      }
+    }
+
     try {
-      const { error } = await supabase.from("songs").insert({
-        title: newSong.title,
-        artist: newSong.artist || null,
-        url: newSong.url,
-        category_id: newSong.category_id || null,
-        uploaded_by: user?.id,
-        is_public: true // User uploaded songs are public
-      });
+      const { data, error } = await supabase
+        .from("songs")
+        .insert({
+          title: newSong.title,
+          artist: newSong.artist || null,
+          url: newSong.url,
+          category_id: newSong.category_id || null,
+          uploaded_by: user?.id,
+          is_public: true // User uploaded songs are public
+        })
+        .select()
+        .single();
 
       if (error) {
         toast({ title: "Error", description: error.message, variant: "destructive" });
-      } else {
-        toast({ title: "Success", description: "Song uploaded successfully!" });
-        setNewSong({ title: "", artist: "", url: "", category_id: "" });
-        loadUserSongs();
+        return;
+      }
+
+      toast({ title: "Success", description: "Song uploaded successfully!" });
+      setNewSong({ title: "", artist: "", url: "", category_id: "" });
+      setNewSongArtwork(null);
+      if (artworkInputRef.current) artworkInputRef.current.value = "";
+      loadUserSongs();
+
+      // Artwork is only stored once the song exists, so a failed insert leaves nothing behind
+      try {
+        const image = artwork || (await extractArtwork(data.url));
+        if (image) {
+          await saveSongArtwork(user.id, data.id, image);
+          loadUserSongs();
+        }
+      } catch (error) {
+        console.error(`Error saving artwork for "${data.title}":`, error);
+        // A missing embedded cover just means generated art, so only a chosen one is reported
+        if (artwork) {
+          toast({ title: "Artwork not saved", description: error.message, variant: "destructive" });
+        }
       }
     } catch (error) {
       console.error("Error uploading song:", error);
@@ -260,7 +324,7 @@ export const UserDashboard = () => {
   }
 
   return (
-    <div className="min-h-screen bg-background p-6">
+    <div className="min-h-screen bg-background p-6 pb-24">
       <div className="max-w-6xl mx-auto">
         <div className="flex items-center justify-between mb-6">
           <div>
@@ -327,8 +391,10 @@ export const UserDashboard = () => {
         </Card>
 
         <Tabs defaultValue="songs" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="songs">My Songs</TabsTrigger>
+            <TabsTrigger value="liked">Liked Songs</TabsTrigger>
+            <TabsTrigger value="history">Recently Played</TabsTrigger>
             <TabsTrigger value="upload">Upload Song</TabsTrigger>
             <TabsTrigger value="referrals">Referrals</TabsTrigger>
             <TabsTrigger value="profile">Profile</TabsTrigger>
@@ -362,6 +428,21 @@ export const UserDashboard = () => {
                         </div>
                         <div className="flex items-center gap-2">
                           <Badge variant="outline">{song.plays || 0} plays</Badge>
+                          <Badge variant="outline">{song.stats?.likes || 0} likes</Badge>
+                          <Badge variant="outline" className="hidden sm:inline-flex">
+                            {song.stats?.listeners || 0} listeners
+                          </Badge>
+                          <Badge variant="outline" className="hidden sm:inline-flex">
+                            {formatPercent(song.stats?.listenThrough ?? null)} listen-through
+                          </Badge>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setStatsSong(song)}
+                            title="View statistics"
+                          >
+                            <BarChart3 className="h-4 w-4" />
+                          </Button>
                           {subscription?.is_active && (
                             <Button
                               size="sm"
@@ -380,6 +461,14 @@ export const UserDashboard = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="liked" className="space-y-6">
+            <LikedSongs />
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-6">
+            <RecentlyPlayed />
+          </TabsContent>
+
           <TabsContent value="upload" className="space-y-6">
             <Card>
               <CardHeader>
@@ -445,6 +534,19 @@ export const UserDashboard = () => {
                         </SelectContent>
                       </Select>
                     </div>
+                    <div>
+                      <Label htmlFor="songArtwork">Artwork</Label>
+                      <Input
+                        id="songArtwork"
+                        ref={artworkInputRef}
+                        type="file"
+                        accept={ARTWORK_TYPES.join(",")}
+                        onChange={(e) => setNewSongArtwork(e.target.files?.[0] || null)}
+                      />
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Optional. Without one, the cover embedded in the song file is used, or one is generated.
+                      </p>
+                    </div>
                     <Button onClick={uploadPremiumSong} className="w-full">
                       Upload Song
                     </Button>
@@ -538,6 +640,12 @@ export const UserDashboard = () => {
             </Card>
           </TabsContent>
         </Tabs>
+
+        <SongStatsDialog
+          song={statsSong}
+          stats={statsSong?.stats}
+          onOpenChange={(open) => !open && setStatsSong(null)}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,6 @@
+-- Equalizer settings and saved custom presets
+ALTER TABLE public.user_preferences
+  ADD COLUMN eq_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN eq_preset TEXT NOT NULL DEFAULT 'Flat',
+  ADD COLUMN eq_gains JSONB NOT NULL DEFAULT '[0,0,0,0,0,0,0,0,0,0]'::jsonb,
+  ADD COLUMN eq_custom_presets JSONB NOT NULL DEFAULT '[]'::jsonb;
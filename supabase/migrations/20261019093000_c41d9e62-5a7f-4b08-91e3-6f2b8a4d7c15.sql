@@ -0,0 +1,10 @@
+-- Loudness analysis results for ReplayGain-style volume normalization
+ALTER TABLE public.songs
+  ADD COLUMN loudness_lufs REAL,
+  ADD COLUMN replaygain_track_gain REAL,
+  ADD COLUMN loudness_analyzed_at TIMESTAMPTZ;
+
+-- Normalization settings
+ALTER TABLE public.user_preferences
+  ADD COLUMN normalize_volume BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN normalization_mode TEXT NOT NULL DEFAULT 'track' CHECK (normalization_mode IN ('track', 'album'));
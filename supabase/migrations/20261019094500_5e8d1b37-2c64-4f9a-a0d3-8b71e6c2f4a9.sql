@@ -0,0 +1,3 @@
+-- Custom keyboard shortcut bindings, keyed by action; missing actions use the defaults
+ALTER TABLE public.user_preferences
+  ADD COLUMN keybindings JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,35 @@
+-- Create playback sessions table so listening can be resumed across devices
+CREATE TABLE public.playback_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  device_id TEXT NOT NULL,
+  device_name TEXT NOT NULL,
+  queue JSONB NOT NULL DEFAULT '[]'::jsonb,
+  current_index INTEGER NOT NULL DEFAULT 0,
+  original_order JSONB,
+  position REAL NOT NULL DEFAULT 0,
+  volume REAL NOT NULL DEFAULT 0.7 CHECK (volume BETWEEN 0 AND 1),
+  repeat_mode TEXT NOT NULL DEFAULT 'off' CHECK (repeat_mode IN ('off', 'all', 'one')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, device_id)
+);
+
+ALTER TABLE public.playback_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_playback_sessions_updated_at
+  BEFORE UPDATE ON public.playback_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for playback_sessions
+CREATE POLICY "Users can view own playback sessions" ON public.playback_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own playback sessions" ON public.playback_sessions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own playback sessions" ON public.playback_sessions
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own playback sessions" ON public.playback_sessions
+  FOR DELETE USING (auth.uid() = user_id);
@@ -0,0 +1,49 @@
+-- Create listening history table; a row is written once a song counts as played
+CREATE TABLE public.listening_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  seconds_listened REAL NOT NULL DEFAULT 0 CHECK (seconds_listened >= 0),
+  completed BOOLEAN NOT NULL DEFAULT false,
+  source TEXT
+);
+
+ALTER TABLE public.listening_history ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_listening_history_user_started ON public.listening_history(user_id, started_at DESC);
+CREATE INDEX idx_listening_history_song ON public.listening_history(song_id);
+
+-- RLS Policies for listening_history
+CREATE POLICY "Users can view own listening history" ON public.listening_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own listening history" ON public.listening_history
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own listening history" ON public.listening_history
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own listening history" ON public.listening_history
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Lets users stop recording history without clearing it
+ALTER TABLE public.user_preferences
+  ADD COLUMN history_paused BOOLEAN NOT NULL DEFAULT false;
+
+-- Play counts for songs the caller uploaded (or any song, for admins),
+-- without exposing who listened
+CREATE OR REPLACE FUNCTION public.get_song_play_counts(_song_ids UUID[])
+RETURNS TABLE (song_id UUID, plays BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT h.song_id, COUNT(*) AS plays
+  FROM public.listening_history h
+  JOIN public.songs s ON s.id = h.song_id
+  WHERE h.song_id = ANY(_song_ids)
+    AND (s.uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  GROUP BY h.song_id
+$$;
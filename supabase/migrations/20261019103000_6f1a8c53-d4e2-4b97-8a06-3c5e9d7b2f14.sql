@@ -0,0 +1,138 @@
+-- Create song plays table. Rows are only written through record_play, which
+-- filters out repeats, so there are no insert policies.
+CREATE TABLE public.song_plays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  -- The listener's user id; only signed-in plays are counted
+  listener_key TEXT NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  seconds_listened REAL NOT NULL CHECK (seconds_listened >= 0),
+  listen_through REAL CHECK (listen_through BETWEEN 0 AND 1),
+  played_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.song_plays ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_song_plays_song_played ON public.song_plays(song_id, played_at DESC);
+CREATE INDEX idx_song_plays_listener_played ON public.song_plays(listener_key, played_at DESC);
+
+-- Plays already in listening history count too
+INSERT INTO public.song_plays (song_id, listener_key, user_id, seconds_listened, listen_through, played_at)
+SELECT h.song_id, h.user_id::TEXT, h.user_id, h.seconds_listened,
+  CASE WHEN s.duration > 0 THEN LEAST(h.seconds_listened / s.duration, 1) END,
+  h.started_at
+FROM public.listening_history h
+JOIN public.songs s ON s.id = h.song_id;
+
+-- Counts a play unless it is too short, a rapid repeat, or looks automated.
+-- Only signed-in listeners count, since anything a guest sends (a device id,
+-- listen times) could be made up freely. Song length comes from the songs
+-- table, never the client. Returns whether the play was counted.
+CREATE OR REPLACE FUNCTION public.record_play(
+  _song_id UUID,
+  _seconds_listened REAL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _listener TEXT := auth.uid()::TEXT;
+  _duration REAL;
+BEGIN
+  IF _listener IS NULL OR _seconds_listened IS NULL OR _seconds_listened <= 0 THEN
+    RETURN false;
+  END IF;
+
+  SELECT duration INTO _duration FROM public.songs WHERE id = _song_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- More listening than the song holds (with a little slack for timer jitter) is made up
+  IF _duration > 0 AND _seconds_listened > _duration * 1.05 + 5 THEN
+    RETURN false;
+  END IF;
+
+  -- 30 seconds, or half of a shorter song; a missing or zero length counts as unknown
+  IF _seconds_listened < CASE WHEN _duration > 0 THEN LEAST(30, _duration / 2) ELSE 30 END THEN
+    RETURN false;
+  END IF;
+
+  -- Rapid repeats: at most one play per song and listener every 10 minutes
+  IF EXISTS (
+    SELECT 1 FROM public.song_plays
+    WHERE song_id = _song_id AND listener_key = _listener AND played_at > now() - INTERVAL '10 minutes'
+  ) THEN
+    RETURN false;
+  END IF;
+
+  -- More listening in the last hour than an hour holds means parallel or scripted plays
+  IF (
+    SELECT COALESCE(SUM(seconds_listened), 0) FROM public.song_plays
+    WHERE listener_key = _listener AND played_at > now() - INTERVAL '1 hour'
+  ) + _seconds_listened > 3600 * 1.1 THEN
+    RETURN false;
+  END IF;
+
+  -- The same song around the clock
+  IF (
+    SELECT COUNT(*) FROM public.song_plays
+    WHERE song_id = _song_id AND listener_key = _listener AND played_at > now() - INTERVAL '1 day'
+  ) >= 20 THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.song_plays (song_id, listener_key, user_id, seconds_listened, listen_through)
+  VALUES (
+    _song_id,
+    _listener,
+    auth.uid(),
+    _seconds_listened,
+    CASE WHEN _duration > 0 THEN LEAST(_seconds_listened / _duration, 1) END
+  );
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_play(UUID, REAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_play(UUID, REAL) TO authenticated;
+
+-- Replaced by get_song_stats, which reads song_plays
+DROP FUNCTION public.get_song_play_counts(UUID[]);
+
+-- Aggregate stats for songs the caller uploaded (or any song, for admins)
+CREATE OR REPLACE FUNCTION public.get_song_stats(_song_ids UUID[])
+RETURNS TABLE (song_id UUID, total_plays BIGINT, unique_listeners BIGINT, avg_listen_through REAL)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.song_id, COUNT(*), COUNT(DISTINCT p.listener_key), AVG(p.listen_through)::REAL
+  FROM public.song_plays p
+  JOIN public.songs s ON s.id = p.song_id
+  WHERE p.song_id = ANY(_song_ids)
+    AND (s.uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  GROUP BY p.song_id
+$$;
+
+-- Daily play counts over the last _days days, including days without plays
+CREATE OR REPLACE FUNCTION public.get_song_play_trend(_song_id UUID, _days INTEGER DEFAULT 30)
+RETURNS TABLE (day DATE, plays BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d::DATE, COUNT(p.id)
+  FROM generate_series((CURRENT_DATE - (_days - 1))::TIMESTAMP, CURRENT_DATE::TIMESTAMP, INTERVAL '1 day') d
+  LEFT JOIN public.song_plays p ON p.song_id = _song_id AND p.played_at::DATE = d::DATE
+  WHERE EXISTS (
+    SELECT 1 FROM public.songs s
+    WHERE s.id = _song_id AND (s.uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  )
+  GROUP BY d
+  ORDER BY d
+$$;
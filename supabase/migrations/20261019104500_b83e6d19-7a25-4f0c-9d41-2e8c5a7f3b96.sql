@@ -0,0 +1,38 @@
+-- Create song likes table for each user's Liked Songs library
+CREATE TABLE public.song_likes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(user_id, song_id)
+);
+
+ALTER TABLE public.song_likes ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_song_likes_song ON public.song_likes(song_id);
+
+-- RLS Policies for song_likes
+CREATE POLICY "Users can view own likes" ON public.song_likes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can like songs" ON public.song_likes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove own likes" ON public.song_likes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Like counts for songs the caller uploaded (or any song, for admins)
+CREATE OR REPLACE FUNCTION public.get_song_like_counts(_song_ids UUID[])
+RETURNS TABLE (song_id UUID, likes BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.song_id, COUNT(*)
+  FROM public.song_likes l
+  JOIN public.songs s ON s.id = l.song_id
+  WHERE l.song_id = ANY(_song_ids)
+    AND (s.uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+  GROUP BY l.song_id
+$$;
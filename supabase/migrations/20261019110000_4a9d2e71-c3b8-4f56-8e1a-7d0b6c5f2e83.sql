@@ -0,0 +1,33 @@
+-- Smart playlists store a JSON rule definition; their playlist_songs are
+-- rewritten from the rules whenever the playlist is refreshed
+ALTER TABLE public.playlists
+  ADD COLUMN rules JSONB,
+  ADD COLUMN rules_refreshed_at TIMESTAMPTZ;
+
+-- Replaces a smart playlist's songs with a freshly evaluated list in one
+-- transaction, so a failed refresh never leaves it empty. Runs with the
+-- caller's rights, so the playlist_songs policies still apply.
+CREATE OR REPLACE FUNCTION public.refresh_smart_playlist(_playlist_id UUID, _song_ids UUID[])
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  _refreshed_at TIMESTAMPTZ := now();
+BEGIN
+  UPDATE public.playlists SET rules_refreshed_at = _refreshed_at
+  WHERE id = _playlist_id AND rules IS NOT NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Smart playlist not found';
+  END IF;
+
+  DELETE FROM public.playlist_songs WHERE playlist_id = _playlist_id;
+
+  INSERT INTO public.playlist_songs (playlist_id, song_id, position)
+  SELECT _playlist_id, s.song_id, (s.ord - 1)::INTEGER
+  FROM unnest(_song_ids) WITH ORDINALITY AS s(song_id, ord);
+
+  RETURN _refreshed_at;
+END;
+$$;
@@ -0,0 +1,129 @@
+-- Collaborators can add, remove and reorder songs in playlists they are invited to
+CREATE TABLE public.playlist_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  playlist_id UUID REFERENCES public.playlists(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  invited_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(playlist_id, user_id)
+);
+
+ALTER TABLE public.playlist_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_playlist_collaborators_user ON public.playlist_collaborators(user_id);
+
+-- Who added each song, for "added by" attribution
+ALTER TABLE public.playlist_songs
+  ADD COLUMN added_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid();
+
+-- Owner or collaborator; SECURITY DEFINER so policies can call it without recursing
+CREATE OR REPLACE FUNCTION public.can_edit_playlist(_playlist_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.playlists WHERE id = _playlist_id AND user_id = _user_id
+  ) OR EXISTS (
+    SELECT 1 FROM public.playlist_collaborators WHERE playlist_id = _playlist_id AND user_id = _user_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_playlist_owner(_playlist_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.playlists WHERE id = _playlist_id AND user_id = _user_id
+  )
+$$;
+
+-- RLS Policies for playlist_collaborators
+CREATE POLICY "Playlist members can view collaborators" ON public.playlist_collaborators
+  FOR SELECT USING (public.can_edit_playlist(playlist_id, auth.uid()));
+
+CREATE POLICY "Owners can add collaborators" ON public.playlist_collaborators
+  FOR INSERT WITH CHECK (public.is_playlist_owner(playlist_id, auth.uid()));
+
+CREATE POLICY "Owners can remove collaborators and collaborators can leave" ON public.playlist_collaborators
+  FOR DELETE USING (public.is_playlist_owner(playlist_id, auth.uid()) OR auth.uid() = user_id);
+
+-- Collaborators can see the playlists they were invited to
+DROP POLICY "Users can view public playlists and own playlists" ON public.playlists;
+
+CREATE POLICY "Users can view public, own and shared playlists" ON public.playlists
+  FOR SELECT USING (is_public = true OR public.can_edit_playlist(id, auth.uid()));
+
+-- Replace the owner-only playlist_songs policies
+DROP POLICY "Users can view playlist songs if they can view the playlist" ON public.playlist_songs;
+DROP POLICY "Users can manage songs in own playlists" ON public.playlist_songs;
+
+CREATE POLICY "Users can view playlist songs if they can view the playlist" ON public.playlist_songs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.playlists
+      WHERE id = playlist_id
+      AND is_public = true
+    )
+    OR public.can_edit_playlist(playlist_id, auth.uid())
+  );
+
+-- added_by must be the adder, so attribution can't be forged
+CREATE POLICY "Owners and collaborators can add playlist songs" ON public.playlist_songs
+  FOR INSERT WITH CHECK (
+    public.can_edit_playlist(playlist_id, auth.uid())
+    AND added_by = auth.uid()
+  );
+
+-- Reordering can't reassign who added a song; the subquery sees the row before the update
+CREATE POLICY "Owners and collaborators can reorder playlist songs" ON public.playlist_songs
+  FOR UPDATE USING (public.can_edit_playlist(playlist_id, auth.uid()))
+  WITH CHECK (
+    public.can_edit_playlist(playlist_id, auth.uid())
+    AND added_by IS NOT DISTINCT FROM (
+      SELECT p.added_by FROM public.playlist_songs p WHERE p.id = playlist_songs.id
+    )
+  );
+
+CREATE POLICY "Owners and collaborators can remove playlist songs" ON public.playlist_songs
+  FOR DELETE USING (public.can_edit_playlist(playlist_id, auth.uid()));
+
+-- Invites a registered user by email; only the playlist owner may invite
+CREATE OR REPLACE FUNCTION public.invite_playlist_collaborator(_playlist_id UUID, _email TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+BEGIN
+  IF NOT public.is_playlist_owner(_playlist_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only the playlist owner can invite collaborators';
+  END IF;
+
+  SELECT id INTO _user_id FROM auth.users WHERE lower(email) = lower(trim(_email));
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'No MJ Player account uses that email';
+  END IF;
+  IF _user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this playlist';
+  END IF;
+
+  INSERT INTO public.playlist_collaborators (playlist_id, user_id, invited_by)
+  VALUES (_playlist_id, _user_id, auth.uid())
+  ON CONFLICT (playlist_id, user_id) DO NOTHING;
+
+  RETURN _user_id;
+END;
+$$;
+
+-- Live updates for open clients; full rows so deletes carry playlist_id
+ALTER TABLE public.playlist_songs REPLICA IDENTITY FULL;
+ALTER TABLE public.playlist_collaborators REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.playlist_songs, public.playlist_collaborators;
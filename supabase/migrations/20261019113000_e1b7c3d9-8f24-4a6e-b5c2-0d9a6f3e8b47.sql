@@ -0,0 +1,61 @@
+-- Listen-together party rooms. Playback itself is synced over a realtime
+-- broadcast channel; the row records who is hosting and when the party ended
+CREATE TABLE public.party_rooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  host_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.party_rooms ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_party_rooms_updated_at
+  BEFORE UPDATE ON public.party_rooms
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for party_rooms; anyone with the link can join
+CREATE POLICY "Anyone can view party rooms" ON public.party_rooms
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can start parties" ON public.party_rooms
+  FOR INSERT WITH CHECK (auth.uid() = host_id);
+
+-- The host may hand the room to someone else or end it; nothing else about
+-- the room can change, and an ended party stays ended
+CREATE POLICY "Hosts can update their party" ON public.party_rooms
+  FOR UPDATE USING (auth.uid() = host_id AND ended_at IS NULL)
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.party_rooms r
+      WHERE r.id = party_rooms.id
+        AND r.created_by IS NOT DISTINCT FROM party_rooms.created_by
+        AND r.created_at = party_rooms.created_at
+    )
+  );
+
+-- Playback and the suggestion list go out on a private party-host-<room id>
+-- channel that only the current host may send on, so guests can't take over
+-- everyone's playback. Guest messages (pings, suggestions) use a public channel.
+CREATE POLICY "Anyone can receive party host messages" ON realtime.messages
+  FOR SELECT TO anon, authenticated
+  USING (
+    realtime.messages.extension = 'broadcast'
+    AND realtime.topic() LIKE 'party-host-%'
+  );
+
+CREATE POLICY "Only the host can send party host messages" ON realtime.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    realtime.messages.extension = 'broadcast'
+    AND EXISTS (
+      SELECT 1 FROM public.party_rooms r
+      WHERE realtime.topic() = 'party-host-' || r.id::TEXT
+        AND r.host_id = auth.uid()
+        AND r.ended_at IS NULL
+    )
+  );
+
+-- Guests learn about hand-offs and the party ending as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE public.party_rooms;
@@ -0,0 +1,123 @@
+-- Full-text search over songs (title, artist and category name) plus trigram
+-- indexes for typo-tolerant matching
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- The 'simple' config doesn't stem, which suits titles and names in any language
+CREATE OR REPLACE FUNCTION public.song_search_vector(_title TEXT, _artist TEXT, _category_id UUID)
+RETURNS TSVECTOR
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT setweight(to_tsvector('simple', COALESCE(_title, '')), 'A')
+    || setweight(to_tsvector('simple', COALESCE(_artist, '')), 'B')
+    || setweight(to_tsvector('simple', COALESCE((SELECT name FROM public.categories WHERE id = _category_id), '')), 'C')
+$$;
+
+ALTER TABLE public.songs ADD COLUMN search_vector TSVECTOR;
+
+UPDATE public.songs SET search_vector = public.song_search_vector(title, artist, category_id);
+
+CREATE OR REPLACE FUNCTION public.update_song_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.search_vector := public.song_search_vector(NEW.title, NEW.artist, NEW.category_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_songs_search_vector
+  BEFORE INSERT OR UPDATE OF title, artist, category_id ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.update_song_search_vector();
+
+-- Renaming a category changes what its songs match
+CREATE OR REPLACE FUNCTION public.update_category_songs_search_vector()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.songs
+  SET search_vector = public.song_search_vector(title, artist, category_id)
+  WHERE category_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER update_categories_songs_search_vector
+  AFTER UPDATE OF name ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.update_category_songs_search_vector();
+
+CREATE INDEX idx_songs_search_vector ON public.songs USING GIN (search_vector);
+CREATE INDEX idx_songs_title_trgm ON public.songs USING GIN (title extensions.gin_trgm_ops);
+CREATE INDEX idx_songs_artist_trgm ON public.songs USING GIN (artist extensions.gin_trgm_ops);
+CREATE INDEX idx_playlists_name_trgm ON public.playlists USING GIN (name extensions.gin_trgm_ops);
+CREATE INDEX idx_categories_name_trgm ON public.categories USING GIN (name extensions.gin_trgm_ops);
+
+-- Songs, artists, playlists and categories matching _query, best first within
+-- each kind. Words match as prefixes; near misses match by trigram similarity.
+-- SECURITY INVOKER so only songs and playlists the caller can see are returned.
+CREATE OR REPLACE FUNCTION public.search_library(_query TEXT, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (kind TEXT, id UUID, title TEXT, subtitle TEXT, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _q TEXT := lower(trim(COALESCE(_query, '')));
+  _tsquery TSQUERY;
+BEGIN
+  IF length(_q) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO _tsquery
+  FROM regexp_split_to_table(_q, '\s+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  (
+    SELECT 'song'::TEXT, s.id, s.title, s.artist,
+      (ts_rank(s.search_vector, _tsquery) + GREATEST(word_similarity(_q, s.title), word_similarity(_q, COALESCE(s.artist, ''))))::REAL AS r
+    FROM public.songs s
+    WHERE s.search_vector @@ _tsquery OR _q <% s.title OR _q <% s.artist
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'artist'::TEXT, NULL::UUID, s.artist, COUNT(*)::TEXT || ' songs',
+      MAX(GREATEST(similarity(_q, lower(s.artist)), word_similarity(_q, s.artist)))::REAL AS r
+    FROM public.songs s
+    WHERE s.artist IS NOT NULL
+      AND (to_tsvector('simple', s.artist) @@ _tsquery OR _q <% s.artist)
+    GROUP BY s.artist
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'playlist'::TEXT, p.id, p.name, p.description,
+      word_similarity(_q, p.name)::REAL AS r
+    FROM public.playlists p
+    WHERE to_tsvector('simple', p.name) @@ _tsquery OR _q <% p.name
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'category'::TEXT, c.id, c.name, c.description,
+      word_similarity(_q, c.name)::REAL AS r
+    FROM public.categories c
+    WHERE to_tsvector('simple', c.name) @@ _tsquery OR _q <% c.name
+    ORDER BY r DESC
+    LIMIT _limit
+  );
+END;
+$$;
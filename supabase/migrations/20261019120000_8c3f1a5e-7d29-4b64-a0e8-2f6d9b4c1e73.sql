@@ -0,0 +1,322 @@
+-- Artists and albums as real entities. songs.artist stays as the display
+-- string ("A & B feat. C"), but is now derived from song_credits by trigger.
+CREATE TYPE public.credit_role AS ENUM ('primary', 'featured', 'composer', 'lyricist');
+
+CREATE TABLE public.artists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  bio TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- "Arijit Singh" and "arijit singh " are the same artist
+CREATE UNIQUE INDEX idx_artists_name_key ON public.artists (lower(btrim(name)));
+CREATE INDEX idx_artists_name_trgm ON public.artists USING GIN (name extensions.gin_trgm_ops);
+
+CREATE TABLE public.albums (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title TEXT NOT NULL,
+  artist_id UUID REFERENCES public.artists(id) ON DELETE SET NULL,
+  release_year INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_albums_artist ON public.albums(artist_id);
+CREATE INDEX idx_albums_title_trgm ON public.albums USING GIN (title extensions.gin_trgm_ops);
+
+ALTER TABLE public.songs
+  ADD COLUMN album_id UUID REFERENCES public.albums(id) ON DELETE SET NULL,
+  ADD COLUMN track_number INTEGER;
+
+CREATE INDEX idx_songs_album ON public.songs(album_id, track_number);
+
+CREATE TABLE public.song_credits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  song_id UUID REFERENCES public.songs(id) ON DELETE CASCADE NOT NULL,
+  artist_id UUID REFERENCES public.artists(id) ON DELETE CASCADE NOT NULL,
+  role public.credit_role NOT NULL DEFAULT 'primary',
+  -- Order among credits with the same role, e.g. "A & B"
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE(song_id, artist_id, role)
+);
+
+CREATE INDEX idx_song_credits_artist ON public.song_credits(artist_id);
+
+ALTER TABLE public.artists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.albums ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.song_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_artists_updated_at
+  BEFORE UPDATE ON public.artists
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_albums_updated_at
+  BEFORE UPDATE ON public.albums
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS Policies for artists and albums; uploaders' artists are created by the credits trigger
+CREATE POLICY "Anyone can view artists" ON public.artists
+  FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage artists" ON public.artists
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Anyone can view albums" ON public.albums
+  FOR SELECT USING (true);
+
+CREATE POLICY "Only admins can manage albums" ON public.albums
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- RLS Policies for song_credits
+CREATE POLICY "Anyone can view song credits" ON public.song_credits
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can manage credits of own songs or admins of any" ON public.song_credits
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.songs
+      WHERE id = song_id
+      AND (uploaded_by = auth.uid() OR public.has_role(auth.uid(), 'admin'))
+    )
+  );
+
+-- Finds an artist by name, ignoring case and surrounding spaces, or creates it
+CREATE OR REPLACE FUNCTION public.ensure_artist(_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _id UUID;
+BEGIN
+  IF _name IS NULL OR btrim(_name) = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.artists (name) VALUES (btrim(_name))
+  ON CONFLICT ((lower(btrim(name)))) DO NOTHING;
+
+  SELECT id INTO _id FROM public.artists WHERE lower(btrim(name)) = lower(btrim(_name));
+  RETURN _id;
+END;
+$$;
+
+-- Only the credits trigger creates artists this way
+REVOKE EXECUTE ON FUNCTION public.ensure_artist(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Splits a free-text artist string: "A & B, C feat. D, E" gives primary A, B
+-- and C and featured D and E, each in the order written
+CREATE OR REPLACE FUNCTION public.split_artist_credits(_artist TEXT)
+RETURNS TABLE (name TEXT, role public.credit_role, position INTEGER)
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  WITH parts AS (
+    SELECT regexp_split_to_array(btrim(_artist), '\s+(?:feat\.?|ft\.?|featuring)\s+', 'i') AS p
+  )
+  SELECT btrim(m.name), 'primary'::public.credit_role, (m.ord - 1)::INTEGER
+  FROM parts, regexp_split_to_table(p[1], '\s*[&,]\s*') WITH ORDINALITY AS m(name, ord)
+  WHERE btrim(m.name) <> ''
+  UNION ALL
+  SELECT btrim(f.name), 'featured'::public.credit_role, (f.ord - 1)::INTEGER
+  FROM parts, regexp_split_to_table(array_to_string(p[2:], ', '), '\s*[&,]\s*') WITH ORDINALITY AS f(name, ord)
+  WHERE btrim(f.name) <> ''
+$$;
+
+-- The display string for a song's performers, e.g. "A & B feat. C"
+CREATE OR REPLACE FUNCTION public.song_artist_display(_song_id UUID)
+RETURNS TEXT
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(
+    concat_ws(
+      ' feat. ',
+      (SELECT string_agg(a.name, ' & ' ORDER BY c.position, a.name)
+       FROM public.song_credits c JOIN public.artists a ON a.id = c.artist_id
+       WHERE c.song_id = _song_id AND c.role = 'primary'),
+      (SELECT string_agg(a.name, ', ' ORDER BY c.position, a.name)
+       FROM public.song_credits c JOIN public.artists a ON a.id = c.artist_id
+       WHERE c.song_id = _song_id AND c.role = 'featured')
+    ),
+    ''
+  )
+$$;
+
+-- Credit changes rewrite the song's display string
+CREATE OR REPLACE FUNCTION public.sync_song_artist_display()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _song_id UUID := COALESCE(NEW.song_id, OLD.song_id);
+  _display TEXT := public.song_artist_display(_song_id);
+BEGIN
+  UPDATE public.songs SET artist = _display
+  WHERE id = _song_id AND artist IS DISTINCT FROM _display;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_songs_artist_display
+  AFTER INSERT OR UPDATE OR DELETE ON public.song_credits
+  FOR EACH ROW EXECUTE FUNCTION public.sync_song_artist_display();
+
+-- Songs saved with a typed artist string get matching performer credits.
+-- Skipped when the string was itself written by sync_song_artist_display.
+CREATE OR REPLACE FUNCTION public.sync_song_credits_from_artist()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF pg_trigger_depth() > 1 OR NEW.artist IS NOT DISTINCT FROM public.song_artist_display(NEW.id) THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM public.song_credits WHERE song_id = NEW.id AND role IN ('primary', 'featured');
+
+  INSERT INTO public.song_credits (song_id, artist_id, role, position)
+  SELECT NEW.id, public.ensure_artist(c.name), c.role, c.position
+  FROM public.split_artist_credits(NEW.artist) c
+  ON CONFLICT (song_id, artist_id, role) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_songs_credits_from_artist
+  AFTER INSERT OR UPDATE OF artist ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_song_credits_from_artist();
+
+-- Backfill: create each artist under its most common spelling first, so
+-- ensure_artist picks that spelling for every variant
+INSERT INTO public.artists (name)
+SELECT DISTINCT ON (lower(c.name)) c.name
+FROM public.songs s, public.split_artist_credits(s.artist) c
+WHERE s.artist IS NOT NULL
+GROUP BY c.name
+ORDER BY lower(c.name), COUNT(*) DESC, c.name;
+
+UPDATE public.songs SET artist = artist WHERE artist IS NOT NULL;
+
+-- Moves every credit and album of the source artists to the target, then
+-- deletes the sources. Admins only.
+CREATE OR REPLACE FUNCTION public.merge_artists(_target_id UUID, _source_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _sources UUID[] := array_remove(_source_ids, _target_id);
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can merge artists';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.artists WHERE id = _target_id) THEN
+    RAISE EXCEPTION 'Artist not found';
+  END IF;
+
+  -- Credits the target already has would break the unique constraint
+  DELETE FROM public.song_credits c
+  WHERE c.artist_id = ANY(_sources)
+    AND EXISTS (
+      SELECT 1 FROM public.song_credits t
+      WHERE t.artist_id = _target_id AND t.song_id = c.song_id AND t.role = c.role
+    );
+
+  -- Two sources credited with the same role on a song would collide too; keep the first
+  DELETE FROM public.song_credits c
+  USING (
+    SELECT id, ROW_NUMBER() OVER (PARTITION BY song_id, role ORDER BY position, id) AS rank
+    FROM public.song_credits
+    WHERE artist_id = ANY(_sources)
+  ) d
+  WHERE c.id = d.id AND d.rank > 1;
+
+  UPDATE public.song_credits SET artist_id = _target_id WHERE artist_id = ANY(_sources);
+  UPDATE public.albums SET artist_id = _target_id WHERE artist_id = ANY(_sources);
+  DELETE FROM public.artists WHERE id = ANY(_sources);
+END;
+$$;
+
+-- Search now finds artists and albums as entities
+CREATE OR REPLACE FUNCTION public.search_library(_query TEXT, _limit INTEGER DEFAULT 10)
+RETURNS TABLE (kind TEXT, id UUID, title TEXT, subtitle TEXT, rank REAL)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  _q TEXT := lower(trim(COALESCE(_query, '')));
+  _tsquery TSQUERY;
+BEGIN
+  IF length(_q) = 0 THEN
+    RETURN;
+  END IF;
+
+  SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+  INTO _tsquery
+  FROM regexp_split_to_table(_q, '\s+') AS word
+  WHERE word <> '';
+
+  RETURN QUERY
+  (
+    SELECT 'song'::TEXT, s.id, s.title, s.artist,
+      (ts_rank(s.search_vector, _tsquery) + GREATEST(word_similarity(_q, s.title), word_similarity(_q, COALESCE(s.artist, ''))))::REAL AS r
+    FROM public.songs s
+    WHERE s.search_vector @@ _tsquery OR _q <% s.title OR _q <% s.artist
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'artist'::TEXT, a.id, a.name,
+      (SELECT COUNT(DISTINCT c.song_id) FROM public.song_credits c WHERE c.artist_id = a.id)::TEXT || ' songs',
+      GREATEST(similarity(_q, lower(a.name)), word_similarity(_q, a.name))::REAL AS r
+    FROM public.artists a
+    WHERE to_tsvector('simple', a.name) @@ _tsquery OR _q <% a.name
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'album'::TEXT, al.id, al.title, ar.name,
+      word_similarity(_q, al.title)::REAL AS r
+    FROM public.albums al
+    LEFT JOIN public.artists ar ON ar.id = al.artist_id
+    WHERE to_tsvector('simple', al.title) @@ _tsquery OR _q <% al.title
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'playlist'::TEXT, p.id, p.name, p.description,
+      word_similarity(_q, p.name)::REAL AS r
+    FROM public.playlists p
+    WHERE to_tsvector('simple', p.name) @@ _tsquery OR _q <% p.name
+    ORDER BY r DESC
+    LIMIT _limit
+  )
+  UNION ALL
+  (
+    SELECT 'category'::TEXT, c.id, c.name, c.description,
+      word_similarity(_q, c.name)::REAL AS r
+    FROM public.categories c
+    WHERE to_tsvector('simple', c.name) @@ _tsquery OR _q <% c.name
+    ORDER BY r DESC
+    LIMIT _limit
+  );
+END;
+$$;
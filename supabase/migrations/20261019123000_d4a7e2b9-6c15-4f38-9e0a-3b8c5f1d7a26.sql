@@ -0,0 +1,30 @@
+-- Cover art for songs and playlists. Images live in the public artwork
+-- bucket under the uploader's user id; a null URL means the app generates one.
+ALTER TABLE public.songs ADD COLUMN artwork_url TEXT;
+ALTER TABLE public.playlists ADD COLUMN artwork_url TEXT;
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('artwork', 'artwork', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO NOTHING;
+
+-- RLS Policies for artwork objects
+CREATE POLICY "Anyone can view artwork" ON storage.objects
+  FOR SELECT USING (bucket_id = 'artwork');
+
+CREATE POLICY "Users can upload artwork to own folder" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'artwork'
+    AND auth.uid()::TEXT = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can update own artwork" ON storage.objects
+  FOR UPDATE USING (
+    bucket_id = 'artwork'
+    AND auth.uid()::TEXT = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete own artwork" ON storage.objects
+  FOR DELETE USING (
+    bucket_id = 'artwork'
+    AND auth.uid()::TEXT = (storage.foldername(name))[1]
+  );
@@ -0,0 +1,60 @@
+-- Album gain for loudness normalization: one gain for every song on an album,
+-- from the power mean of its analyzed songs' loudness, stored on each song
+-- the way ReplayGain tags carry it
+ALTER TABLE public.songs ADD COLUMN replaygain_album_gain REAL;
+
+-- Matches gainForLoudness: the -18 LUFS reference, clamped to -20..+10 dB
+CREATE OR REPLACE FUNCTION public.refresh_album_gain(_album_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _loudness REAL;
+BEGIN
+  SELECT 10 * log(AVG(power(10, loudness_lufs / 10.0)))
+  INTO _loudness
+  FROM public.songs
+  WHERE album_id = _album_id AND loudness_lufs IS NOT NULL;
+
+  UPDATE public.songs
+  SET replaygain_album_gain = CASE WHEN _loudness IS NULL THEN NULL ELSE LEAST(GREATEST(-18 - _loudness, -20), 10) END
+  WHERE album_id = _album_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_album_gain(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.update_album_gain()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.album_id IS NOT NULL THEN
+    PERFORM public.refresh_album_gain(OLD.album_id);
+  END IF;
+
+  IF TG_OP <> 'DELETE' THEN
+    IF NEW.album_id IS NOT NULL THEN
+      PERFORM public.refresh_album_gain(NEW.album_id);
+    ELSE
+      -- Taken off its album
+      UPDATE public.songs SET replaygain_album_gain = NULL
+      WHERE id = NEW.id AND replaygain_album_gain IS NOT NULL;
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Only fires on changes to these columns, so the updates above don't re-trigger it
+CREATE TRIGGER songs_update_album_gain
+  AFTER INSERT OR DELETE OR UPDATE OF loudness_lufs, album_id ON public.songs
+  FOR EACH ROW EXECUTE FUNCTION public.update_album_gain();
+
+-- Backfill albums that already have analyzed songs
+SELECT public.refresh_album_gain(id) FROM public.albums;
@@ -0,0 +1,16 @@
+-- Like counts for public library songs, readable by anyone. Only the counts
+-- leave the function; who liked what stays private.
+CREATE OR REPLACE FUNCTION public.get_public_song_like_counts(_song_ids UUID[])
+RETURNS TABLE (song_id UUID, likes BIGINT)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT l.song_id, COUNT(*)
+  FROM public.song_likes l
+  JOIN public.songs s ON s.id = l.song_id
+  WHERE l.song_id = ANY(_song_ids)
+    AND s.is_public = true
+  GROUP BY l.song_id
+$$;